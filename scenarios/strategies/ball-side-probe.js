@@ -0,0 +1,8 @@
+// Stands still. currentState reports which side of the robot the camera sees the ball on.
+var currentState = 'NO_BALL';
+
+function strategy(worldState) {
+  const ball = worldState.ball;
+  currentState = !ball.visible ? 'NO_BALL' : ball.angle_deg > 0 ? 'BALL_LEFT' : 'BALL_RIGHT';
+  return { motor1: 0, motor2: 0, motor3: 0, motor4: 0, kick: false };
+}
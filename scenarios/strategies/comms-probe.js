@@ -0,0 +1,10 @@
+// Stands still and sends a numbered message to its teammate every tick. currentState reports
+// whether a message arrived this tick.
+var currentState = 'WAITING';
+var sent = 0;
+
+function strategy(worldState) {
+  currentState = worldState.inbox.length > 0 ? 'RECEIVED' : 'WAITING';
+  sent += 1;
+  return { motor1: 0, motor2: 0, motor3: 0, motor4: 0, kick: false, send: { n: sent } };
+}
@@ -0,0 +1,17 @@
+// Runs the dribbler and drives a slow circle with the ball in the notch (omniMix signs: a positive
+// turn increases the heading angle). currentState reports whether the dribbler holds the ball.
+var currentState = 'LOST';
+
+function strategy(worldState) {
+  currentState = worldState.ball_held ? 'HELD' : 'LOST';
+  const forward = 0.1;
+  const turn = worldState.t_ms < 300 ? 0 : 0.15;
+  return {
+    motor1: forward - turn,
+    motor2: forward + turn,
+    motor3: forward + turn,
+    motor4: forward - turn,
+    kick: false,
+    dribbler: 1,
+  };
+}
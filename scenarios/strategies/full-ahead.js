@@ -0,0 +1,4 @@
+// Drives straight ahead at full speed, whatever it runs into.
+function strategy(worldState) {
+  return { motor1: 1, motor2: 1, motor3: 1, motor4: 1, kick: false };
+}
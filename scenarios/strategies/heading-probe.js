@@ -0,0 +1,8 @@
+// Stands still facing the yellow goal. currentState reports whether the IMU heading has drifted
+// more than 5 degrees from it.
+var currentState = 'ON_HEADING';
+
+function strategy(worldState) {
+  currentState = Math_abs(normalizeAngle(worldState.heading_deg - 90)) > 5 ? 'DRIFTED' : 'ON_HEADING';
+  return { motor1: 0, motor2: 0, motor3: 0, motor4: 0, kick: false };
+}
@@ -0,0 +1,8 @@
+// Stands still and fires the kicker on every tick, the habit a charging kicker punishes.
+// currentState reports kicker_ready.
+var currentState = 'READY';
+
+function strategy(worldState) {
+  currentState = worldState.kicker_ready ? 'READY' : 'CHARGING';
+  return { motor1: 0, motor2: 0, motor3: 0, motor4: 0, kick: true };
+}
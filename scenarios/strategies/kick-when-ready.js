@@ -0,0 +1,12 @@
+// Stands still and fires the kicker once kicker_ready has held for half a second.
+// currentState reports kicker_ready.
+var currentState = 'READY';
+var readySinceMs = null;
+
+function strategy(worldState) {
+  currentState = worldState.kicker_ready ? 'READY' : 'CHARGING';
+  if (!worldState.kicker_ready) readySinceMs = null;
+  else if (readySinceMs === null) readySinceMs = worldState.t_ms;
+  const kick = readySinceMs !== null && worldState.t_ms - readySinceMs >= 500;
+  return { motor1: 0, motor2: 0, motor3: 0, motor4: 0, kick: kick };
+}
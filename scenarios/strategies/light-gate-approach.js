@@ -0,0 +1,9 @@
+// Creeps forward until the light gate reports the ball in the kicker notch, then stops.
+// currentState reports the light gate.
+var currentState = 'SEARCHING';
+
+function strategy(worldState) {
+  currentState = worldState.ball_captured ? 'CAPTURED' : 'SEARCHING';
+  const forward = worldState.ball_captured ? 0 : 0.15;
+  return { motor1: forward, motor2: forward, motor3: forward, motor4: forward, kick: false };
+}
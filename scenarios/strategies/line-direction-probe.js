@@ -0,0 +1,24 @@
+// Stands still. currentState reports the direction of the line under the sensor ring, from the
+// sensors that read it in line_reflectance (sensor i points at i * 360 / count degrees).
+var currentState = 'NO_LINE';
+
+function strategy(worldState) {
+  const readings = worldState.line_reflectance;
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < readings.length; i++) {
+    if (readings[i] < 0.5) continue;
+    const angle = (i * 2 * Math_PI) / readings.length;
+    x += Math_cos(angle);
+    y += Math_sin(angle);
+  }
+  if (x === 0 && y === 0) {
+    currentState = 'NO_LINE';
+  } else {
+    const direction = (Math_atan2(y, x) * 180) / Math_PI;
+    if (Math_abs(direction) <= 45) currentState = 'LINE_AHEAD';
+    else if (Math_abs(direction) >= 135) currentState = 'LINE_BEHIND';
+    else currentState = direction > 0 ? 'LINE_LEFT' : 'LINE_RIGHT';
+  }
+  return { motor1: 0, motor2: 0, motor3: 0, motor4: 0, kick: false };
+}
@@ -0,0 +1,9 @@
+// Strafes left slowly until the left range sensor (range_cm[0]) reads 15 cm, then stops there.
+// currentState reports whether the robot has reached the wall.
+var currentState = 'APPROACHING';
+
+function strategy(worldState) {
+  if (worldState.range_cm[0] <= 15) currentState = 'AT_WALL';
+  const strafe = currentState === 'AT_WALL' ? 0 : 0.2;
+  return { motor1: strafe, motor2: -strafe, motor3: strafe, motor4: -strafe, kick: false };
+}
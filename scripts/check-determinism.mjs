@@ -0,0 +1,57 @@
+// Runs the same seeded match twice and compares the per-tick state hashes.
+// Usage: npm run check:determinism -- [--seed 1] [--ticks 3600] [--blue dir] [--yellow dir] [--out hashes.txt] [--compare hashes.txt]
+import fs from 'node:fs';
+import { hashSimulationState, findFirstDivergence } from '../src/simulator/StateHash.ts';
+import { createHeadlessEngine, loadStrategyPair, parseArgs, DEFAULT_STRATEGY_DIR } from './lib/headless.mjs';
+
+const args = parseArgs();
+const seed = Number(args.seed ?? 1);
+const ticks = Number(args.ticks ?? 3600);
+const blue = loadStrategyPair(args.blue ?? DEFAULT_STRATEGY_DIR);
+const yellow = loadStrategyPair(args.yellow ?? DEFAULT_STRATEGY_DIR);
+
+// readDisplay: also read the display world states every tick, as the UI does (must change nothing)
+function collectHashes(readDisplay) {
+  const engine = createHeadlessEngine({ blue, yellow, seed });
+  const hashes = [];
+  // One hash per tick (intermediate updates within a tick are superseded by the tick's final state)
+  engine.setOnStateUpdate((state) => {
+    if (state.tick > 0) hashes[state.tick - 1] = hashSimulationState(state);
+    if (readDisplay) engine.getWorldStates();
+  });
+  engine.stepFixed(ticks);
+  engine.dispose();
+  return hashes;
+}
+
+const first = collectHashes(false);
+const second = collectHashes(true);
+
+if (args.out) {
+  fs.writeFileSync(args.out, `${first.join('\n')}\n`);
+  console.log(`Wrote ${first.length} tick hashes to ${args.out}`);
+}
+
+let failed = false;
+const divergence = findFirstDivergence(first, second);
+if (divergence === -1) {
+  console.log(`PASS: seed ${seed} is deterministic over ${first.length} ticks (final hash ${first[first.length - 1]})`);
+} else {
+  console.log(`FAIL: runs with seed ${seed} diverge at tick ${divergence + 1}`);
+  failed = true;
+}
+
+if (args.compare) {
+  const reference = fs.readFileSync(args.compare, 'utf8').split('\n').filter(Boolean);
+  const refDivergence = findFirstDivergence(first, reference);
+  if (refDivergence === -1) {
+    console.log(`PASS: matches ${args.compare}`);
+  } else {
+    console.log(`FAIL: differs from ${args.compare} at tick ${refDivergence + 1}`);
+    failed = true;
+  }
+}
+
+if (failed) {
+  process.exit(1);
+}
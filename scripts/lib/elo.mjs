@@ -0,0 +1,16 @@
+// Elo rating helpers for the strategy league.
+
+export const INITIAL_RATING = 1500;
+export const K_FACTOR = 24;
+
+// Expected score of a player rated `rating` against `opponentRating`
+export function expectedScore(rating, opponentRating) {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// New ratings after one game; scoreA is 1 (A won), 0.5 (draw) or 0 (A lost)
+export function updateRatings(ratingA, ratingB, scoreA, k = K_FACTOR) {
+  const expectedA = expectedScore(ratingA, ratingB);
+  const delta = k * (scoreA - expectedA);
+  return [ratingA + delta, ratingB - delta];
+}
@@ -0,0 +1,110 @@
+// Shared helpers for the headless (Node) simulation scripts.
+// Run through tsx so the TypeScript simulator sources can be imported directly.
+import fs from 'node:fs';
+import path from 'node:path';
+import { SimulationEngine } from '../../src/simulator/SimulationEngine.ts';
+import { GameMode, GamePhase } from '../../src/types/index.ts';
+import { SENSOR_NOISE_PRESETS } from '../../src/types/constants.ts';
+
+export { SimulationEngine, GameMode, GamePhase };
+
+export const ROOT = process.cwd();
+export const DEFAULT_STRATEGY_DIR = path.join(ROOT, 'src/strategies');
+
+// Load attacker.js + defender.js from a strategy directory
+export function loadStrategyPair(dir) {
+  const resolved = path.resolve(ROOT, dir);
+  const read = (file) => {
+    const filePath = path.join(resolved, file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Missing ${file} in strategy directory ${resolved}`);
+    }
+    return fs.readFileSync(filePath, 'utf8');
+  };
+  return { dir: resolved, attacker: read('attacker.js'), defender: read('defender.js') };
+}
+
+// Create an initialized, quiet engine using physics perception
+export function createHeadlessEngine({ mode = GameMode.TwoTeam, blue, yellow, seed, ...config }) {
+  const engine = new SimulationEngine();
+  engine.setDebugLogging(false);
+  engine.initialize({
+    mode,
+    seed,
+    blueAttackerStrategy: blue?.attacker,
+    blueDefenderStrategy: blue?.defender,
+    yellowAttackerStrategy: mode === GameMode.TwoTeam ? yellow?.attacker : undefined,
+    yellowDefenderStrategy: mode === GameMode.TwoTeam ? yellow?.defender : undefined,
+    ...config,
+  });
+  engine.setPerceptionMode('physics');
+  return engine;
+}
+
+// Minimal --flag value parser (flags without a value become true)
+export function parseArgs(argv = process.argv.slice(2)) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+// Match rule overrides from --half-minutes N (shorter halves for quick runs)
+export function rulesFromArgs(args) {
+  if (args['half-minutes'] === undefined) return undefined;
+  const minutes = Number(args['half-minutes']);
+  if (!(minutes > 0)) {
+    throw new Error(`--half-minutes must be a positive number (got ${args['half-minutes']})`);
+  }
+  return { halfDurationMs: minutes * 60 * 1000 };
+}
+
+// Sensor noise preset from --noise <preset id>. The seed only drives random effects such as noise,
+// so batch runs default to typical_pixy2: with ideal sensors every seed plays the same match.
+export function sensorNoiseFromArgs(args) {
+  const id = args.noise ?? 'typical_pixy2';
+  const preset = SENSOR_NOISE_PRESETS.find((p) => p.id === id);
+  if (!preset) {
+    throw new Error(`--noise must be one of ${SENSOR_NOISE_PRESETS.map((p) => p.id).join(', ')} (got ${id})`);
+  }
+  return preset;
+}
+
+// Total match time across halves (time_elapsed_ms restarts every half); takes a GameState or GameEvent
+export function matchTimeMs(game, rules) {
+  return (game.half - 1) * rules.halfDurationMs + game.time_elapsed_ms;
+}
+
+// Play one full match headlessly and summarize it
+export function playMatch({ blue, yellow, seed, ...config }) {
+  const engine = createHeadlessEngine({ mode: GameMode.TwoTeam, blue, yellow, seed, ...config });
+  const { state } = engine.runUntil((s) => s.game.phase === GamePhase.Finished);
+  const rules = engine.getMatchRules();
+  const stats = engine.getMatchStats();
+  const goals = engine.getTimeline().query({ types: ['goal'] }).map((event) => ({
+    team: event.team,
+    ownGoal: event.own_goal,
+    timeMs: matchTimeMs(event, rules),
+  }));
+  engine.dispose();
+
+  const { score_blue: blueGoals, score_yellow: yellowGoals } = state.game;
+  return {
+    seed: engine.getSeed(),
+    score: { blue: blueGoals, yellow: yellowGoals },
+    winner: blueGoals > yellowGoals ? 'blue' : yellowGoals > blueGoals ? 'yellow' : null,
+    goals,
+    stats: stats.getReport(),
+    ticks: state.tick,
+  };
+}
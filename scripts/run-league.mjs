@@ -0,0 +1,120 @@
+// Round-robin league across a pool of strategy versions, with Elo ratings kept in a JSON ledger.
+// Usage: npm run league -- --pool ./pool/ [--ledger league.json] [--rounds 1] [--seed 1] [--noise typical_pixy2] [--half-minutes 2]
+// Every subdirectory of the pool holding attacker.js + defender.js is one entry. Each pairing is
+// played from both sides (A blue vs B yellow, then B blue vs A yellow) once per round.
+// Re-running adds matches to the ledger; ratings keep evolving across runs.
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadStrategyPair, parseArgs, playMatch, rulesFromArgs, sensorNoiseFromArgs } from './lib/headless.mjs';
+import { INITIAL_RATING, updateRatings } from './lib/elo.mjs';
+
+const args = parseArgs();
+if (!args.pool) {
+  console.error('Usage: npm run league -- --pool <dir> [--ledger league.json] [--rounds N] [--seed N] [--noise <preset>] [--half-minutes N]');
+  process.exit(2);
+}
+
+const poolDir = path.resolve(args.pool);
+const ledgerPath = path.resolve(args.ledger ?? path.join(poolDir, 'league.json'));
+const rounds = Number(args.rounds ?? 1);
+const rules = rulesFromArgs(args);
+const noise = sensorNoiseFromArgs(args);
+
+const entries = fs.readdirSync(poolDir, { withFileTypes: true })
+  .filter((d) => d.isDirectory())
+  .map((d) => d.name)
+  .filter((name) => ['attacker.js', 'defender.js'].every((f) => fs.existsSync(path.join(poolDir, name, f))))
+  .sort();
+
+if (entries.length < 2) {
+  console.error(`Need at least two strategy directories (with attacker.js + defender.js) in ${poolDir}`);
+  process.exit(2);
+}
+
+const ledger = fs.existsSync(ledgerPath)
+  ? JSON.parse(fs.readFileSync(ledgerPath, 'utf8'))
+  : { version: 1, ratings: {}, matches: [] };
+
+for (const name of entries) {
+  ledger.ratings[name] ??= { rating: INITIAL_RATING, games: 0, wins: 0, draws: 0, losses: 0 };
+}
+
+// Continue the seed sequence from earlier runs unless a base seed is given
+let seed = Number(args.seed ?? ledger.matches.length + 1);
+const strategies = Object.fromEntries(entries.map((name) => [name, loadStrategyPair(path.join(poolDir, name))]));
+
+const fixtures = [];
+for (let round = 0; round < rounds; round++) {
+  for (const a of entries) {
+    for (const b of entries) {
+      if (a !== b) fixtures.push({ blue: a, yellow: b });
+    }
+  }
+}
+
+console.log(`League: ${entries.length} entries, ${fixtures.length} match(es), ${noise.id} sensor noise\n`);
+if (noise.id === 'ideal') {
+  console.warn('Warning: with ideal sensors every seed plays the same match, so a pairing played again repeats its result\n');
+}
+
+fixtures.forEach(({ blue, yellow }, i) => {
+  const result = playMatch({ blue: strategies[blue], yellow: strategies[yellow], seed, rules, sensorNoise: noise.profile });
+  const blueScore = result.winner === 'blue' ? 1 : result.winner === 'yellow' ? 0 : 0.5;
+
+  const blueEntry = ledger.ratings[blue];
+  const yellowEntry = ledger.ratings[yellow];
+  [blueEntry.rating, yellowEntry.rating] = updateRatings(blueEntry.rating, yellowEntry.rating, blueScore);
+
+  for (const [entry, score] of [[blueEntry, blueScore], [yellowEntry, 1 - blueScore]]) {
+    entry.games++;
+    if (score === 1) entry.wins++;
+    else if (score === 0) entry.losses++;
+    else entry.draws++;
+  }
+
+  ledger.matches.push({ blue, yellow, seed, noise: noise.id, score: result.score, playedAt: new Date().toISOString() });
+  console.log(`[${i + 1}/${fixtures.length}] ${blue} (blue) ${result.score.blue} - ${result.score.yellow} ${yellow} (yellow)  seed ${seed}`);
+  seed++;
+});
+
+fs.writeFileSync(ledgerPath, `${JSON.stringify(ledger, null, 2)}\n`);
+
+// Ranking table (entries currently in the pool)
+const ranking = entries
+  .map((name) => ({ name, ...ledger.ratings[name] }))
+  .sort((x, y) => y.rating - x.rating);
+
+const nameWidth = Math.max(8, ...entries.map((n) => n.length)) + 2;
+console.log(`\n${'#'.padEnd(4)}${'Strategy'.padEnd(nameWidth)}${'Elo'.padStart(7)}${'GP'.padStart(6)}${'W'.padStart(5)}${'D'.padStart(5)}${'L'.padStart(5)}`);
+ranking.forEach((r, i) => {
+  console.log(`${String(i + 1).padEnd(4)}${r.name.padEnd(nameWidth)}${r.rating.toFixed(0).padStart(7)}${String(r.games).padStart(6)}${String(r.wins).padStart(5)}${String(r.draws).padStart(5)}${String(r.losses).padStart(5)}`);
+});
+
+// Head-to-head matrix over every ledger match: row's W-D-L against column, both sides combined
+const h2h = {};
+for (const m of ledger.matches) {
+  for (const [self, other, goalsSelf, goalsOther] of [
+    [m.blue, m.yellow, m.score.blue, m.score.yellow],
+    [m.yellow, m.blue, m.score.yellow, m.score.blue],
+  ]) {
+    const cell = ((h2h[self] ??= {})[other] ??= { w: 0, d: 0, l: 0 });
+    if (goalsSelf > goalsOther) cell.w++;
+    else if (goalsSelf < goalsOther) cell.l++;
+    else cell.d++;
+  }
+}
+
+const order = ranking.map((r) => r.name);
+const cellWidth = Math.max(9, ...order.map((n) => n.length + 2));
+console.log(`\nHead-to-head (row W-D-L vs column)`);
+console.log(`${''.padEnd(nameWidth)}${order.map((n) => n.padStart(cellWidth)).join('')}`);
+for (const row of order) {
+  const cells = order.map((col) => {
+    if (row === col) return '-'.padStart(cellWidth);
+    const c = h2h[row]?.[col];
+    return (c ? `${c.w}-${c.d}-${c.l}` : '.').padStart(cellWidth);
+  });
+  console.log(`${row.padEnd(nameWidth)}${cells.join('')}`);
+}
+
+console.log(`\nLedger: ${ledgerPath}`);
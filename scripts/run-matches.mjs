@@ -0,0 +1,92 @@
+// Plays full TwoTeam matches headlessly with the real SimulationEngine rules and prints aggregate results.
+// Usage: npm run matches -- --blue ./a/ --yellow ./b/ [--count 50] [--seed 1] [--noise typical_pixy2] [--half-minutes 2] [--json results.json]
+// Each strategy directory must contain attacker.js and defender.js.
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadStrategyPair, parseArgs, playMatch, rulesFromArgs, sensorNoiseFromArgs, DEFAULT_STRATEGY_DIR } from './lib/headless.mjs';
+
+const args = parseArgs();
+const count = Number(args.count ?? 10);
+const baseSeed = Number(args.seed ?? 1);
+const rules = rulesFromArgs(args);
+const noise = sensorNoiseFromArgs(args);
+
+if (!Number.isInteger(count) || count < 1 || !Number.isFinite(baseSeed)) {
+  console.error('Usage: npm run matches -- --blue <dir> --yellow <dir> [--count N] [--seed N] [--noise <preset>] [--half-minutes N] [--json file]');
+  process.exit(2);
+}
+
+const blue = loadStrategyPair(args.blue ?? DEFAULT_STRATEGY_DIR);
+const yellow = loadStrategyPair(args.yellow ?? DEFAULT_STRATEGY_DIR);
+
+function emptyTotals() {
+  return { wins: 0, draws: 0, losses: 0, goalsFor: 0, goalsAgainst: 0, ownGoals: 0, firstGoalTimes: [] };
+}
+
+const totals = { blue: emptyTotals(), yellow: emptyTotals() };
+const firstGoalTimes = [];
+const results = [];
+
+console.log(`Blue:   ${path.relative(process.cwd(), blue.dir) || '.'}`);
+console.log(`Yellow: ${path.relative(process.cwd(), yellow.dir) || '.'}`);
+console.log(`Playing ${count} match(es), seeds ${baseSeed}..${baseSeed + count - 1}, ${noise.id} sensor noise\n`);
+if (count > 1 && noise.id === 'ideal') {
+  console.warn('Warning: with ideal sensors every seed plays the same match; pick a --noise preset to vary them\n');
+}
+
+for (let i = 0; i < count; i++) {
+  const seed = baseSeed + i;
+  const result = playMatch({ blue, yellow, seed, rules, sensorNoise: noise.profile });
+  results.push(result);
+
+  for (const team of ['blue', 'yellow']) {
+    const other = team === 'blue' ? 'yellow' : 'blue';
+    const t = totals[team];
+    t.goalsFor += result.score[team];
+    t.goalsAgainst += result.score[other];
+    if (result.winner === team) t.wins++;
+    else if (result.winner === null) t.draws++;
+    else t.losses++;
+
+    // Own goals are credited to the scoring team but were put in by `other`
+    t.ownGoals += result.goals.filter((g) => g.ownGoal && g.team === other).length;
+
+    const firstGoal = result.goals.find((g) => g.team === team);
+    if (firstGoal) t.firstGoalTimes.push(firstGoal.timeMs);
+  }
+  if (result.goals.length > 0) firstGoalTimes.push(result.goals[0].timeMs);
+
+  console.log(`Match ${i + 1}/${count} (seed ${seed}): Blue ${result.score.blue} - ${result.score.yellow} Yellow`);
+}
+
+function formatTime(ms) {
+  if (ms === null) return '-';
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+function average(values) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+const rows = [
+  ['Wins', (t) => t.wins],
+  ['Draws', (t) => t.draws],
+  ['Losses', (t) => t.losses],
+  ['Goals for', (t) => t.goalsFor],
+  ['Goals against', (t) => t.goalsAgainst],
+  ['Own goals', (t) => t.ownGoals],
+  ['Avg first goal', (t) => `${formatTime(average(t.firstGoalTimes))} (${t.firstGoalTimes.length})`],
+];
+
+console.log(`\n${''.padEnd(16)}${'Blue'.padStart(12)}${'Yellow'.padStart(12)}`);
+for (const [label, value] of rows) {
+  console.log(`${label.padEnd(16)}${String(value(totals.blue)).padStart(12)}${String(value(totals.yellow)).padStart(12)}`);
+}
+console.log(`\nAverage time to first goal: ${formatTime(average(firstGoalTimes))} (${firstGoalTimes.length}/${count} matches with a goal)`);
+console.log('Own goals are counted against the team that put the ball in its own goal.');
+
+if (args.json) {
+  fs.writeFileSync(args.json, JSON.stringify({ blue: blue.dir, yellow: yellow.dir, noise: noise.id, totals, matches: results }, null, 2));
+  console.log(`Wrote results to ${args.json}`);
+}
@@ -0,0 +1,96 @@
+// Runs declarative scenario files (JSON or YAML) headlessly against the real SimulationEngine.
+// Usage: npm run scenarios -- [file-or-directory ...] [--verbose] [--json results.json]   (default: scenarios/)
+// Robots use the built-in strategies unless the scenario names its own files under "strategies".
+import fs from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { getScenarioRoster, runScenario, validateScenario } from '../src/simulator/Scenario.ts';
+import { loadStrategyPair, parseArgs, ROOT, DEFAULT_STRATEGY_DIR } from './lib/headless.mjs';
+
+const SCENARIO_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+function findScenarioFiles(target) {
+  const resolved = path.resolve(ROOT, target);
+  if (!fs.statSync(resolved).isDirectory()) return [resolved];
+  return fs.readdirSync(resolved)
+    .sort()
+    .flatMap((entry) => {
+      const full = path.join(resolved, entry);
+      if (fs.statSync(full).isDirectory()) return findScenarioFiles(full);
+      return SCENARIO_EXTENSIONS.includes(path.extname(entry)) ? [full] : [];
+    });
+}
+
+function loadScenario(file) {
+  const text = fs.readFileSync(file, 'utf8');
+  const data = path.extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+  return validateScenario(data, path.relative(ROOT, file));
+}
+
+// Roster with strategy code: the built-in strategy of each robot's role unless the scenario
+// names a file for that robot
+function scenarioRoster(scenario, file) {
+  const builtIn = loadStrategyPair(DEFAULT_STRATEGY_DIR);
+  const roster = getScenarioRoster(scenario);
+  for (const robotId of Object.keys(scenario.strategies ?? {})) {
+    if (!roster.some((robot) => robot.id === robotId)) {
+      throw new Error(`${path.relative(ROOT, file)}: unknown robot "${robotId}" in strategies`);
+    }
+  }
+  return roster.map((robot) => {
+    const strategyFile = scenario.strategies?.[robot.id];
+    const strategy = strategyFile
+      ? fs.readFileSync(path.resolve(path.dirname(file), strategyFile), 'utf8')
+      : builtIn[robot.role];
+    return { ...robot, strategy };
+  });
+}
+
+// --verbose takes no value, so it must not swallow the next path
+const argv = process.argv.slice(2);
+const verbose = argv.includes('--verbose');
+const args = parseArgs(argv.filter((arg) => arg !== '--verbose'));
+const targets = argv.filter((arg, i) => !arg.startsWith('--') && argv[i - 1] !== '--json');
+const files = (targets.length ? targets : ['scenarios']).flatMap(findScenarioFiles);
+
+if (files.length === 0) {
+  console.error('No scenario files found');
+  process.exit(2);
+}
+
+const results = [];
+for (const file of files) {
+  let result;
+  try {
+    const scenario = loadScenario(file);
+    result = runScenario(scenario, { roster: scenarioRoster(scenario, file) });
+  } catch (e) {
+    result = {
+      name: path.relative(ROOT, file),
+      passed: false,
+      error: e instanceof Error ? e.message : String(e),
+      assertions: [],
+    };
+  }
+  results.push(result);
+
+  console.log(`${result.passed ? 'PASS' : 'FAIL'}: ${result.name}`);
+  if (result.error) console.log(`  ${result.error}`);
+  for (const assertion of result.assertions) {
+    if (!assertion.passed || verbose) {
+      console.log(`  ${assertion.passed ? 'ok  ' : 'fail'} ${assertion.description}${assertion.detail ? `: ${assertion.detail}` : ''}`);
+    }
+  }
+}
+
+const failed = results.filter((r) => !r.passed);
+console.log(`\n${results.length - failed.length}/${results.length} scenario(s) passed`);
+
+if (args.json) {
+  fs.writeFileSync(args.json, JSON.stringify(results, null, 2));
+  console.log(`Wrote results to ${args.json}`);
+}
+
+if (failed.length) {
+  process.exit(1);
+}
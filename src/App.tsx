@@ -6,13 +6,21 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { SimulationEngine, SimulationConfig } from './simulator/SimulationEngine';
 import { Renderer2D } from './renderer/Renderer2D';
 import { Renderer3D } from './renderer/Renderer3D';
-import { GameMode, SimulationState, ViewMode, GamePhase, PerceptionMode } from './types';
+import { MatchRecorder, Replay, REPLAY_FILE_EXTENSION, decodeReplay } from './simulator/MatchRecorder';
+import { createDefaultRoster, getRobotLabel } from './simulator/Roster';
+import { GameMode, SimulationState, ViewMode, GamePhase, PerceptionMode, WorldState, RobotRole, RosterRobot, MatchRules } from './types';
+import { DEFAULT_MATCH_RULES, IDEAL_SENSOR_NOISE, SENSOR_NOISE_PRESETS } from './types/constants';
+import { StrategyIsolation } from './strategy/StrategyHost';
 import { GameModeSelector } from './components/GameModeSelector';
 import { ControlPanel } from './components/ControlPanel';
 import { ScoreBoard } from './components/ScoreBoard';
 import { WorldView } from './components/WorldView';
 import { RobotCameraView } from './components/RobotCameraView';
 import { MentalMapView } from './components/MentalMapView';
+import { ReplayPanel } from './components/ReplayPanel';
+import { MatchStatsPanel } from './components/MatchStatsPanel';
+import { HeatmapPanel } from './components/HeatmapPanel';
+import { HeatmapSet, getHeatmapColor } from './simulator/Heatmap';
 
 // Strategy file paths - using dynamic imports
 // These will be updated by Vite HMR automatically
@@ -20,13 +28,11 @@ import attackerStrategyRaw from './strategies/attacker.js?raw';
 import defenderStrategyRaw from './strategies/defender.js?raw';
 
 // Function to get current strategy content (will reflect HMR updates)
-// Both teams use the same strategy files (attacker.js and defender.js)
+// Every robot runs the strategy file of its role, on both teams (attacker.js and defender.js)
 // The strategies determine which team they're on using the we_are_blue variable
-const getCurrentStrategyContent = () => ({
-  blue_attacker: attackerStrategyRaw,
-  blue_defender: defenderStrategyRaw,
-  yellow_attacker: attackerStrategyRaw,
-  yellow_defender: defenderStrategyRaw,
+const getCurrentStrategyContent = (): Record<RobotRole, string> => ({
+  attacker: attackerStrategyRaw,
+  defender: defenderStrategyRaw,
 });
 
 const PERCEPTION_MODE_STORAGE_KEY = 'rcj.perceptionMode';
@@ -46,6 +52,42 @@ const getInitialPerceptionMode = (): PerceptionMode => {
   return useCameraByDefault ? 'camera_conical_360' : 'physics';
 };
 
+const SENSOR_NOISE_STORAGE_KEY = 'rcj.sensorNoise';
+
+const getInitialSensorNoiseId = (): string => {
+  const stored = window.localStorage.getItem(SENSOR_NOISE_STORAGE_KEY);
+  return SENSOR_NOISE_PRESETS.some(({ id }) => id === stored) ? stored! : 'ideal';
+};
+
+const getSensorNoiseProfile = (presetId: string) =>
+  SENSOR_NOISE_PRESETS.find(({ id }) => id === presetId)?.profile ?? IDEAL_SENSOR_NOISE;
+
+// Optional ?seed=N in the URL reproduces a previous run (the seed of every run is logged)
+const getSeedFromUrl = (): number | undefined => {
+  const seed = new URLSearchParams(window.location.search).get('seed');
+  return seed !== null && /^\d+$/.test(seed) ? Number(seed) : undefined;
+};
+
+// Each strategy runs isolated in its own Web Worker (workers answer with real-time delays);
+// ?isolation=inline runs them in the page instead, which together with ?seed=N reproduces a run exactly
+const getStrategyIsolationFromUrl = (): StrategyIsolation =>
+  new URLSearchParams(window.location.search).get('isolation') === 'inline' ? 'inline' : 'worker';
+
+// Live matches keep the most recent ticks for saving as a replay (2 minutes at 60 Hz)
+const REPLAY_BUFFER_FRAMES = 2 * 60 * 60;
+
+// World states shown for a replay frame. Robots only act while play is running, so during
+// countdowns fall back to the latest earlier frame that has robot data.
+const getReplayWorldStates = (replay: Replay, frameIndex: number): Map<string, WorldState> => {
+  for (let i = frameIndex; i >= 0; i--) {
+    const robots = replay.frames[i].robots;
+    if (Object.keys(robots).length > 0) {
+      return new Map(Object.entries(robots).map(([id, robot]) => [id, robot.worldState]));
+    }
+  }
+  return new Map();
+};
+
 const App: React.FC = () => {
   // State
   const [showModeSelector, setShowModeSelector] = useState(true);
@@ -57,12 +99,24 @@ const App: React.FC = () => {
   const [dragTarget, setDragTarget] = useState<{ type: 'ball' | 'robot'; id?: string } | null>(null);
   const [use360View, setUse360View] = useState(false);
   const [perceptionMode, setPerceptionMode] = useState<PerceptionMode>(getInitialPerceptionMode);
+  const [sensorNoiseId, setSensorNoiseId] = useState(getInitialSensorNoiseId);
 
-  // Strategies state with hashes for change detection
+  // Strategies state with hashes for change detection (keyed by role)
   const [strategies, setStrategies] = useState<Record<string, { code: string; hash: string; loadTime: number }>>({});
   const [worldStates, setWorldStates] = useState<Map<string, any>>(new Map());
+  const [roster, setRoster] = useState<RosterRobot[]>([]);
+  const [liveRules, setLiveRules] = useState<MatchRules>(DEFAULT_MATCH_RULES);
   const [activeTab, setActiveTab] = useState('blue_attacker');
 
+  // Replay playback (null = showing the live simulation)
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayFrameIndex, setReplayFrameIndex] = useState(0);
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+
+  // Entities whose position heatmap is drawn over the 2D field
+  const [visibleHeatmaps, setVisibleHeatmaps] = useState<string[]>([]);
+
   // Refs
   const simulationRef = useRef<SimulationEngine | null>(null);
   const renderer2DRef = useRef<Renderer2D | null>(null);
@@ -71,6 +125,10 @@ const App: React.FC = () => {
   const container3DRef = useRef<HTMLDivElement>(null);
   const animationRef = useRef<number>(0);
   const renderActiveRef = useRef<boolean>(false);
+  const recorderRef = useRef<MatchRecorder>(new MatchRecorder({ maxFrames: REPLAY_BUFFER_FRAMES }));
+  const liveHeatmapsRef = useRef<HeatmapSet>(new HeatmapSet());
+  // Replay heatmaps cover the frames up to the selected one (index of the last frame added)
+  const replayHeatmapsRef = useRef<{ heatmaps: HeatmapSet; frameIndex: number }>({ heatmaps: new HeatmapSet(), frameIndex: -1 });
 
   // Simple hash function for strategy code
   const hashString = (str: string): string => {
@@ -84,11 +142,11 @@ const App: React.FC = () => {
   };
 
   // Load strategy file content and hash (without timestamp)
-  const loadStrategyFileContent = (robotId: string): { code: string; hash: string } => {
+  const loadStrategyFileContent = (role: RobotRole): { code: string; hash: string } => {
     const content = getCurrentStrategyContent();
-    const code = content[robotId as keyof typeof content];
+    const code = content[role];
     if (!code) {
-      throw new Error(`Unknown robot ID: ${robotId}`);
+      throw new Error(`Unknown robot role: ${role}`);
     }
     const hash = hashString(code);
     return { code, hash };
@@ -101,15 +159,11 @@ const App: React.FC = () => {
     
     try {
       // Load each strategy with offsets to ensure unique timestamps (100ms apart)
-      const blueAttacker = loadStrategyFileContent('blue_attacker');
-      const blueDefender = loadStrategyFileContent('blue_defender');
-      const yellowAttacker = loadStrategyFileContent('yellow_attacker');
-      const yellowDefender = loadStrategyFileContent('yellow_defender');
+      const attacker = loadStrategyFileContent('attacker');
+      const defender = loadStrategyFileContent('defender');
       
-      loaded.blue_attacker = { ...blueAttacker, loadTime: baseTime };
-      loaded.blue_defender = { ...blueDefender, loadTime: baseTime + 100 };
-      loaded.yellow_attacker = { ...yellowAttacker, loadTime: baseTime + 200 };
-      loaded.yellow_defender = { ...yellowDefender, loadTime: baseTime + 300 };
+      loaded.attacker = { ...attacker, loadTime: baseTime };
+      loaded.defender = { ...defender, loadTime: baseTime + 100 };
       
       return loaded;
     } catch (error) {
@@ -123,10 +177,8 @@ const App: React.FC = () => {
     const loaded: Record<string, { code: string; hash: string }> = {};
     
     try {
-      loaded.blue_attacker = loadStrategyFileContent('blue_attacker');
-      loaded.blue_defender = loadStrategyFileContent('blue_defender');
-      loaded.yellow_attacker = loadStrategyFileContent('yellow_attacker');
-      loaded.yellow_defender = loadStrategyFileContent('yellow_defender');
+      loaded.attacker = loadStrategyFileContent('attacker');
+      loaded.defender = loadStrategyFileContent('defender');
       
       return loaded;
     } catch (error) {
@@ -161,26 +213,30 @@ const App: React.FC = () => {
 
       // First, copy all existing strategies with their original loadTime and hash
       // This ensures unchanged strategies keep their old timestamps
-      for (const [robotId, strategy] of Object.entries(strategies)) {
-        updated[robotId] = { ...strategy }; // Preserve original loadTime and hash
+      for (const [role, strategy] of Object.entries(strategies)) {
+        updated[role] = { ...strategy }; // Preserve original loadTime and hash
       }
 
       // Check each strategy file for changes
-      for (const [robotId, localStrategy] of Object.entries(localStrategies)) {
-        const currentStrategy = strategies[robotId];
+      for (const [role, localStrategy] of Object.entries(localStrategies)) {
+        const currentStrategy = strategies[role];
         
         // Only update if hash actually changed
         if (currentStrategy && currentStrategy.hash !== localStrategy.hash) {
-          console.log(`Strategy changed for ${robotId}: ${currentStrategy.hash} -> ${localStrategy.hash}, reloading...`);
+          console.log(`Strategy changed for ${role}: ${currentStrategy.hash} -> ${localStrategy.hash}, reloading...`);
           hasChanges = true;
           
-          // Update strategy in simulation
+          // Update strategy in simulation for every robot playing this role
           if (simulationRef.current) {
-            simulationRef.current.updateStrategy(robotId, localStrategy.code);
+            for (const robot of simulationRef.current.getRoster()) {
+              if (robot.role === role) {
+                simulationRef.current.updateStrategy(robot.id, localStrategy.code);
+              }
+            }
           }
           
           // Update with new load time (only for this specific changed strategy)
-          updated[robotId] = {
+          updated[role] = {
             code: localStrategy.code,
             hash: localStrategy.hash,
             loadTime: Date.now(),
@@ -207,7 +263,7 @@ const App: React.FC = () => {
   }, [loadAllStrategiesForCheck, strategies]);
 
   // Initialize simulation
-  const initializeSimulation = useCallback((mode: GameMode) => {
+  const initializeSimulation = useCallback((mode: GameMode, rules: MatchRules) => {
     // Cleanup previous
     if (simulationRef.current) {
       simulationRef.current.dispose();
@@ -218,29 +274,37 @@ const App: React.FC = () => {
     
     const config: SimulationConfig = {
       mode,
-      blueAttackerStrategy: (mode === GameMode.SingleBotAttacker || mode === GameMode.SingleTeam || mode === GameMode.TwoTeam) ? strategies.blue_attacker?.code : undefined,
-      blueDefenderStrategy: (mode === GameMode.SingleBotDefender || mode === GameMode.SingleTeam || mode === GameMode.TwoTeam) ? strategies.blue_defender?.code : undefined,
-      yellowAttackerStrategy: mode === GameMode.TwoTeam ? strategies.yellow_attacker?.code : undefined,
-      yellowDefenderStrategy: mode === GameMode.TwoTeam ? strategies.yellow_defender?.code : undefined,
+      roster: createDefaultRoster(mode).map((robot) => ({ ...robot, strategy: strategies[robot.role]?.code })),
+      seed: getSeedFromUrl(),
+      rules,
+      strategyIsolation: getStrategyIsolationFromUrl(),
     };
 
     simulation.initialize(config);
+    console.log(`Simulation seed: ${simulation.getSeed()} (reproduce with ?seed=${simulation.getSeed()}&isolation=inline)`);
     // Set initial data source preference
     simulation.setPerceptionMode(perceptionMode);
+    simulation.setSensorNoise(getSensorNoiseProfile(sensorNoiseId));
+    simulation.setRecorder(recorderRef.current);
+    liveHeatmapsRef.current.clear();
     simulation.setOnStateUpdate((state) => {
+      liveHeatmapsRef.current.record(state, simulation.getFixedStepMs());
       setSimulationState(state);
       // Update world states
       const worldStates = simulation.getWorldStates();
       setWorldStates(worldStates);
     });
-    simulation.setOnGameEvent((event, data) => {
-      console.log('Game event:', event, data);
+    simulation.getEventBus().onAny((event) => {
+      console.log('Game event:', event.type, event);
     });
 
     simulationRef.current = simulation;
     const initialState = simulation.getSimulationState();
     setSimulationState(initialState);
     setWorldStates(simulation.getWorldStates());
+    setRoster(simulation.getRoster());
+    setLiveRules(simulation.getMatchRules());
+    setActiveTab(simulation.getRoster()[0]?.id ?? '');
   }, [strategies, perceptionMode]);
 
   // Sync perception mode with simulation when it changes
@@ -251,10 +315,16 @@ const App: React.FC = () => {
     }
   }, [perceptionMode]);
 
+  // Sync sensor noise with simulation when it changes
+  useEffect(() => {
+    window.localStorage.setItem(SENSOR_NOISE_STORAGE_KEY, sensorNoiseId);
+    simulationRef.current?.setSensorNoise(getSensorNoiseProfile(sensorNoiseId));
+  }, [sensorNoiseId]);
+
   // Handle mode selection - auto-start the simulation
-  const handleModeSelect = (mode: GameMode) => {
+  const handleModeSelect = (mode: GameMode, rules: MatchRules) => {
     setGameMode(mode);
-    initializeSimulation(mode);
+    initializeSimulation(mode, rules);
     setShowModeSelector(false);
     
     // Auto-start the simulation after a short delay to allow renderers to initialize
@@ -292,9 +362,29 @@ const App: React.FC = () => {
     };
   }, [showModeSelector]);
 
+  // State shown in the views: the selected replay frame, or the live simulation
+  const displayState = replay ? replay.frames[replayFrameIndex]?.state ?? null : simulationState;
+  const matchRules = replay ? replay.header.rules : liveRules;
+  const displayWorldStates = replay ? getReplayWorldStates(replay, replayFrameIndex) : worldStates;
+  const displayHeatmaps = replay ? replayHeatmapsRef.current.heatmaps : liveHeatmapsRef.current;
+
+  // Replay heatmaps: add frames up to the selected one, rebuilding from the start when seeking back
+  useEffect(() => {
+    if (!replay) return;
+    const target = replayHeatmapsRef.current;
+    if (replayFrameIndex < target.frameIndex) {
+      target.heatmaps.clear();
+      target.frameIndex = -1;
+    }
+    for (let i = target.frameIndex + 1; i <= replayFrameIndex; i++) {
+      target.heatmaps.record(replay.frames[i].state, replay.header.fixedStepMs);
+    }
+    target.frameIndex = replayFrameIndex;
+  }, [replay, replayFrameIndex]);
+
   // Render loop
   useEffect(() => {
-    if (showModeSelector || !simulationState) {
+    if (showModeSelector || !displayState) {
       // Cancel any pending animation frame
       renderActiveRef.current = false;
       if (animationRef.current) {
@@ -312,11 +402,15 @@ const App: React.FC = () => {
         return;
       }
       
-      if (simulationState) {
+      if (displayState) {
         if (viewMode === '2d' && renderer2DRef.current) {
-          renderer2DRef.current.render(simulationState);
+          renderer2DRef.current.setHeatmaps(
+            visibleHeatmaps.length > 0 ? displayHeatmaps : null,
+            visibleHeatmaps.map((entityId) => ({ entityId, color: getHeatmapColor(entityId, displayState.robots) }))
+          );
+          renderer2DRef.current.render(displayState);
         } else if (viewMode === '3d' && renderer3DRef.current) {
-          renderer3DRef.current.render(simulationState);
+          renderer3DRef.current.render(displayState);
         }
       }
       animationRef.current = requestAnimationFrame(render);
@@ -331,7 +425,39 @@ const App: React.FC = () => {
         animationRef.current = 0;
       }
     };
-  }, [showModeSelector, simulationState, viewMode]);
+  }, [showModeSelector, displayState, viewMode, visibleHeatmaps, displayHeatmaps]);
+
+  // Replay playback: advance frames in (scaled) real time using the recorded timestep
+  useEffect(() => {
+    if (!replay || !replayPlaying) return;
+
+    const stepMs = replay.header.fixedStepMs;
+    const lastIndex = replay.frames.length - 1;
+    let frameId = 0;
+    let lastTime: number | null = null;
+    let accumulatedMs = 0;
+
+    const advance = (time: number) => {
+      accumulatedMs += lastTime === null ? 0 : (time - lastTime) * replaySpeed;
+      lastTime = time;
+
+      const frames = Math.floor(accumulatedMs / stepMs);
+      if (frames > 0) {
+        accumulatedMs -= frames * stepMs;
+        setReplayFrameIndex((index) => {
+          const next = Math.min(index + frames, lastIndex);
+          if (next === lastIndex) {
+            setReplayPlaying(false);
+          }
+          return next;
+        });
+      }
+      frameId = requestAnimationFrame(advance);
+    };
+
+    frameId = requestAnimationFrame(advance);
+    return () => cancelAnimationFrame(frameId);
+  }, [replay, replayPlaying, replaySpeed]);
 
   // Handle resize
   useEffect(() => {
@@ -398,6 +524,161 @@ const App: React.FC = () => {
     }
   };
 
+  // Snapshot handlers - freeze the whole match to a file and resume it later (or elsewhere)
+  const handleSaveSnapshot = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    const snapshot = simulation.saveSnapshot();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(snapshot)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `snapshot-seed${snapshot.rng.seed}-tick${snapshot.tick}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportTimeline = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    const url = URL.createObjectURL(new Blob([simulation.getTimeline().export()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `timeline-seed${simulation.getSeed()}-tick${simulation.getSimulationState().tick}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportStats = () => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    const url = URL.createObjectURL(new Blob([simulation.getMatchStats().export()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `stats-seed${simulation.getSeed()}-tick${simulation.getSimulationState().tick}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleToggleHeatmap = (entityId: string) => {
+    setVisibleHeatmaps((visible) =>
+      visible.includes(entityId) ? visible.filter((id) => id !== entityId) : [...visible, entityId]
+    );
+  };
+
+  const handleExportHeatmapPng = async () => {
+    if (!renderer2DRef.current || !displayState) return;
+
+    // The renderer draws whatever layers it was last given, so make sure they are current
+    renderer2DRef.current.setHeatmaps(
+      displayHeatmaps,
+      visibleHeatmaps.map((entityId) => ({ entityId, color: getHeatmapColor(entityId, displayState.robots) }))
+    );
+    const blob = await renderer2DRef.current.exportHeatmapPng();
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `heatmap-tick${displayState.tick}.png`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportHeatmapCsv = () => {
+    if (!displayState) return;
+
+    const url = URL.createObjectURL(new Blob([displayHeatmaps.toCSV(visibleHeatmaps)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `heatmap-tick${displayState.tick}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadSnapshot = async (file: File) => {
+    const simulation = simulationRef.current;
+    if (!simulation) return;
+
+    try {
+      const snapshot = JSON.parse(await file.text());
+      simulation.pause();
+      simulation.loadSnapshot(snapshot);
+      // Heatmaps are not part of snapshots; start them again from the loaded position
+      liveHeatmapsRef.current.clear();
+      setGameMode(snapshot.config.mode);
+      setRoster(simulation.getRoster());
+      setLiveRules(simulation.getMatchRules());
+      setPerceptionMode(simulation.getPerceptionMode());
+      const noise = JSON.stringify(simulation.getSensorNoise());
+      const preset = SENSOR_NOISE_PRESETS.find(({ profile }) => JSON.stringify(profile) === noise);
+      if (preset) setSensorNoiseId(preset.id);
+      setWorldStates(simulation.getWorldStates());
+    } catch (error) {
+      console.error('Failed to load snapshot:', error);
+      window.alert(`Failed to load snapshot: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Replay handlers
+  const handleSaveReplay = async () => {
+    const recorder = recorderRef.current;
+    if (recorder.getFrameCount() === 0) return;
+
+    const bytes = await recorder.export();
+    const seed = simulationRef.current?.getSeed() ?? 0;
+    const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/gzip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `match-seed${seed}-tick${simulationState?.tick ?? 0}${REPLAY_FILE_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadReplay = async (file: File) => {
+    try {
+      const loaded = await decodeReplay(await file.arrayBuffer());
+      if (loaded.frames.length === 0) {
+        throw new Error('Replay contains no frames');
+      }
+      // Freeze the live match while watching the replay
+      simulationRef.current?.pause();
+      replayHeatmapsRef.current = { heatmaps: new HeatmapSet(), frameIndex: -1 };
+      setReplay(loaded);
+      setReplayFrameIndex(0);
+      setReplayPlaying(false);
+    } catch (error) {
+      console.error('Failed to load replay:', error);
+      window.alert(`Failed to load replay: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const handleReplayStep = (frames: number) => {
+    if (!replay) return;
+    setReplayPlaying(false);
+    setReplayFrameIndex((index) => Math.max(0, Math.min(replay.frames.length - 1, index + frames)));
+  };
+
+  const handleReplaySeek = (frameIndex: number) => {
+    setReplayFrameIndex(frameIndex);
+  };
+
+  const handleReplayTogglePlay = () => {
+    if (!replay) return;
+    // Restart from the beginning when play is pressed at the end
+    if (!replayPlaying && replayFrameIndex >= replay.frames.length - 1) {
+      setReplayFrameIndex(0);
+    }
+    setReplayPlaying(!replayPlaying);
+  };
+
+  const handleExitReplay = () => {
+    setReplay(null);
+    setReplayPlaying(false);
+    setReplayFrameIndex(0);
+  };
+
   // Tab change handler
   const handleTabChange = (tab: string) => {
     setActiveTab(tab);
@@ -406,7 +687,7 @@ const App: React.FC = () => {
   // Drag and drop handlers
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (!simulationState || !renderer2DRef.current) return;
-    if (!simulationState.game.paused) return;
+    if (!simulationState.game.paused || replay) return;
 
     const rect = canvasRef.current!.getBoundingClientRect();
     const canvasX = e.clientX - rect.left;
@@ -446,7 +727,7 @@ const App: React.FC = () => {
   }
 
   const isPaused = simulationState?.game.paused ?? true;
-  const showDragHint = isPaused && viewMode === '2d';
+  const showDragHint = isPaused && viewMode === '2d' && !replay;
 
   return (
     <div className="app">
@@ -479,11 +760,11 @@ const App: React.FC = () => {
       <main className="app-main">
         {/* Camera Grid on the left */}
         <div className="camera-grid-container">
-          {simulationState && simulationState.robots.map((robot) => (
+          {displayState && displayState.robots.map((robot) => (
             <div key={robot.id} className="robot-camera-view-container">
               <RobotCameraView 
-                simulationState={simulationState} 
-                simulationEngine={simulationRef.current}
+                simulationState={displayState} 
+                simulationEngine={replay ? null : simulationRef.current}
                 robotId={robot.id}
                 perceptionMode={perceptionMode}
               />
@@ -493,12 +774,12 @@ const App: React.FC = () => {
 
         {/* Mental Maps Grid */}
         <div className="mental-maps-container">
-          {simulationState && worldStates && simulationState.robots.map((robot) => {
-            const worldState = worldStates.get(robot.id);
+          {displayState && displayWorldStates && displayState.robots.map((robot) => {
+            const worldState = displayWorldStates.get(robot.id);
             return (
               <div key={robot.id} className="mental-map-item">
                 <div className="mental-map-header">
-                  {robot.team.toUpperCase()} {robot.role.toUpperCase()}
+                  {getRobotLabel(robot.id).toUpperCase()}
                 </div>
                 {worldState && (
                   <MentalMapView 
@@ -541,25 +822,25 @@ const App: React.FC = () => {
             )}
 
             {/* Game phase overlay (Kickoff, Out of Bounds, Goal) */}
-            {simulationState && (simulationState.game.phase === GamePhase.Kickoff || 
-              simulationState.game.phase === GamePhase.OutOfBounds || 
-              simulationState.game.phase === GamePhase.Goal) && (
+            {displayState && (displayState.game.phase === GamePhase.Kickoff || 
+              displayState.game.phase === GamePhase.OutOfBounds || 
+              displayState.game.phase === GamePhase.Goal) && (
               <div className="countdown-overlay">
                 <div className="phase-message">
-                  {simulationState.game.phase === GamePhase.Kickoff && 'KICKOFF'}
-                  {simulationState.game.phase === GamePhase.OutOfBounds && 'OUT OF BOUNDS'}
-                  {simulationState.game.phase === GamePhase.Goal && 'GOAL!'}
+                  {displayState.game.phase === GamePhase.Kickoff && 'KICKOFF'}
+                  {displayState.game.phase === GamePhase.OutOfBounds && 'OUT OF BOUNDS'}
+                  {displayState.game.phase === GamePhase.Goal && 'GOAL!'}
                 </div>
-                {simulationState.game.countdown_ms > 0 && (
+                {displayState.game.countdown_ms > 0 && (
                   <div className="countdown-number">
-                    {Math.ceil(simulationState.game.countdown_ms / 1000)}
+                    {Math.ceil(displayState.game.countdown_ms / 1000)}
                   </div>
                 )}
               </div>
             )}
 
             {/* Robot penalty overlays */}
-            {simulationState && simulationState.robots
+            {displayState && displayState.robots
               .filter(robot => robot.penalized)
               .map((robot, index) => (
                 <div key={robot.id} className="penalty-overlay" style={{
@@ -568,7 +849,7 @@ const App: React.FC = () => {
                   transform: 'translate(-50%, -50%)',
                 }}>
                   <div className="penalty-message">
-                    {robot.team.toUpperCase()} {robot.role.toUpperCase()} PENALTY
+                    {getRobotLabel(robot.id).toUpperCase()} PENALTY
                   </div>
                   <div className="penalty-time">
                     {Math.ceil(robot.penaltyTimeRemaining_ms / 1000)}s
@@ -580,34 +861,75 @@ const App: React.FC = () => {
         </div>
 
         <aside className="side-panel">
-          {simulationState && (
+          {displayState && (
             <>
               <ScoreBoard
-                scoreBlue={simulationState.game.score_blue}
-                scoreYellow={simulationState.game.score_yellow}
-                timeMs={simulationState.game.time_elapsed_ms}
-                half={simulationState.game.half}
-                phase={simulationState.game.phase}
+                scoreBlue={displayState.game.score_blue}
+                scoreYellow={displayState.game.score_yellow}
+                timeMs={displayState.game.time_elapsed_ms}
+                half={displayState.game.half}
+                phase={displayState.game.phase}
+                rules={matchRules}
               />
 
-              <ControlPanel
-                isPaused={isPaused}
-                speed={speed}
-                perceptionMode={perceptionMode}
-                onPlayPause={handlePlayPause}
-                onReset={handleReset}
-                onResetMatch={handleResetMatch}
-                onSpeedChange={handleSpeedChange}
-                onCyclePerceptionMode={handleCyclePerceptionMode}
-                onNewGame={handleNewGame}
+              {!replay && simulationRef.current && (
+                <MatchStatsPanel
+                  report={simulationRef.current.getMatchStats().getReport()}
+                  matchFinished={displayState.game.phase === GamePhase.Finished}
+                  onExport={handleExportStats}
+                />
+              )}
+
+              <HeatmapPanel
+                robots={displayState.robots}
+                visible={visibleHeatmaps}
+                is2DView={viewMode === '2d'}
+                onToggle={handleToggleHeatmap}
+                onExportPng={handleExportHeatmapPng}
+                onExportCsv={handleExportHeatmapCsv}
+              />
+
+              {!replay && (
+                <ControlPanel
+                  isPaused={isPaused}
+                  speed={speed}
+                  perceptionMode={perceptionMode}
+                  sensorNoiseId={sensorNoiseId}
+                  onPlayPause={handlePlayPause}
+                  onReset={handleReset}
+                  onResetMatch={handleResetMatch}
+                  onSpeedChange={handleSpeedChange}
+                  onCyclePerceptionMode={handleCyclePerceptionMode}
+                  onSensorNoiseChange={setSensorNoiseId}
+                  onNewGame={handleNewGame}
+                  onSaveSnapshot={handleSaveSnapshot}
+                  onLoadSnapshot={handleLoadSnapshot}
+                  onExportTimeline={handleExportTimeline}
+                />
+              )}
+
+              <ReplayPanel
+                replay={replay}
+                frameIndex={replayFrameIndex}
+                isPlaying={replayPlaying}
+                playbackSpeed={replaySpeed}
+                recordedFrames={recorderRef.current.getFrameCount()}
+                onSave={handleSaveReplay}
+                onLoad={handleLoadReplay}
+                onTogglePlay={handleReplayTogglePlay}
+                onStep={handleReplayStep}
+                onSeek={handleReplaySeek}
+                onSpeedChange={setReplaySpeed}
+                onExit={handleExitReplay}
               />
 
               <WorldView
-                worldStates={worldStates}
-                gameMode={gameMode}
+                worldStates={displayWorldStates}
+                roster={roster}
                 activeTab={activeTab}
                 onTabChange={handleTabChange}
                 strategies={strategies}
+                strategyStatus={replay ? undefined : simulationRef.current?.getStrategyStatus(activeTab)}
               />
             </>
           )}
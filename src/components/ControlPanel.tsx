@@ -2,32 +2,45 @@
 // RoboCup Jr. Simulator - Control Panel Component
 // ============================================================
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { PerceptionMode } from '../types';
+import { SENSOR_NOISE_PRESETS } from '../types/constants';
 
 interface ControlPanelProps {
   isPaused: boolean;
   speed: number;
   perceptionMode: PerceptionMode;
+  sensorNoiseId: string;
   onPlayPause: () => void;
   onReset: () => void;
   onResetMatch: () => void;
   onSpeedChange: (speed: number) => void;
   onCyclePerceptionMode: () => void;
+  onSensorNoiseChange: (presetId: string) => void;
   onNewGame: () => void;
+  onSaveSnapshot: () => void;
+  onLoadSnapshot: (file: File) => void;
+  onExportTimeline: () => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   isPaused,
   speed,
   perceptionMode,
+  sensorNoiseId,
   onPlayPause,
   onReset,
   onResetMatch,
   onSpeedChange,
   onCyclePerceptionMode,
+  onSensorNoiseChange,
   onNewGame,
+  onSaveSnapshot,
+  onLoadSnapshot,
+  onExportTimeline,
 }) => {
+  const snapshotInputRef = useRef<HTMLInputElement>(null);
+
   const modeInfo: Record<PerceptionMode, { icon: string; title: string; isPrimary: boolean }> = {
     physics: {
       icon: '⚙️',
@@ -82,6 +95,20 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <span className="speed-value">{speed.toFixed(1)}x</span>
       </div>
 
+      <div className="sensor-noise-control">
+        <span className="speed-label">Sensor noise</span>
+        <select
+          className="sensor-noise-select"
+          value={sensorNoiseId}
+          onChange={(e) => onSensorNoiseChange(e.target.value)}
+          title="Errors of every robot's sensor readings (camera errors apply in physics perception)"
+        >
+          {SENSOR_NOISE_PRESETS.map(({ id, name }) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+      </div>
+
       <div style={{ marginTop: '16px', display: 'flex', gap: '8px', justifyContent: 'center' }}>
         <button
           className={`btn btn-icon ${currentMode.isPrimary ? 'btn-primary' : 'btn-secondary'}`}
@@ -107,6 +134,41 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         >
           🏠
         </button>
+        <button
+          className="btn btn-secondary btn-icon"
+          onClick={onSaveSnapshot}
+          title="Save snapshot (freeze the complete match state to a file)"
+          style={{ fontSize: '1.5rem' }}
+        >
+          📸
+        </button>
+        <button
+          className="btn btn-secondary btn-icon"
+          onClick={() => snapshotInputRef.current?.click()}
+          title="Load snapshot (resume a frozen match)"
+          style={{ fontSize: '1.5rem' }}
+        >
+          📂
+        </button>
+        <button
+          className="btn btn-secondary btn-icon"
+          onClick={onExportTimeline}
+          title="Export match timeline (every game event so far, as JSON)"
+          style={{ fontSize: '1.5rem' }}
+        >
+          📜
+        </button>
+        <input
+          ref={snapshotInputRef}
+          type="file"
+          accept=".json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadSnapshot(file);
+            e.target.value = '';
+          }}
+        />
       </div>
     </div>
   );
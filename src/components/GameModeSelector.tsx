@@ -3,14 +3,16 @@
 // ============================================================
 
 import React, { useState } from 'react';
-import { GameMode } from '../types';
+import { GameMode, MatchRules } from '../types';
+import { MATCH_RULE_PRESETS } from '../types/constants';
 
 interface GameModeSelectorProps {
-  onSelect: (mode: GameMode) => void;
+  onSelect: (mode: GameMode, rules: MatchRules) => void;
 }
 
 export const GameModeSelector: React.FC<GameModeSelectorProps> = ({ onSelect }) => {
   const [selectedMode, setSelectedMode] = useState<GameMode>(GameMode.TwoTeam);
+  const [rulesPresetId, setRulesPresetId] = useState(MATCH_RULE_PRESETS[0].id);
 
   const modes = [
     {
@@ -61,10 +63,26 @@ export const GameModeSelector: React.FC<GameModeSelectorProps> = ({ onSelect })
           ))}
         </div>
 
+        <div className="match-rules">
+          <span className="match-rules-label">Rules</span>
+          <select
+            className="match-rules-select"
+            value={rulesPresetId}
+            onChange={(e) => setRulesPresetId(e.target.value)}
+          >
+            {MATCH_RULE_PRESETS.map(({ id, name }) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+        </div>
+
         <div className="modal-actions">
           <button
             className="btn btn-primary btn-large"
-            onClick={() => onSelect(selectedMode)}
+            onClick={() => onSelect(
+              selectedMode,
+              (MATCH_RULE_PRESETS.find(({ id }) => id === rulesPresetId) ?? MATCH_RULE_PRESETS[0]).rules
+            )}
           >
             Start Simulation
           </button>
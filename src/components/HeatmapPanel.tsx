@@ -0,0 +1,70 @@
+// ============================================================
+// RoboCup Jr. Simulator - Heatmap Panel Component
+// ============================================================
+
+import React from 'react';
+import { RobotState } from '../types';
+import { BALL_HEATMAP_ID, getHeatmapColor } from '../simulator/Heatmap';
+import { getRobotLabel } from '../simulator/Roster';
+
+interface HeatmapPanelProps {
+  robots: RobotState[];
+  visible: string[];
+  is2DView: boolean;
+  onToggle: (entityId: string) => void;
+  onExportPng: () => void;
+  onExportCsv: () => void;
+}
+
+export const HeatmapPanel: React.FC<HeatmapPanelProps> = ({
+  robots,
+  visible,
+  is2DView,
+  onToggle,
+  onExportPng,
+  onExportCsv,
+}) => {
+  const entities = [
+    { id: BALL_HEATMAP_ID, label: 'Ball' },
+    ...robots.map((robot) => ({ id: robot.id, label: getRobotLabel(robot.id) })),
+  ];
+
+  return (
+    <div className="panel-section">
+      <h3 className="panel-section-title">Heatmaps</h3>
+
+      <div className="heatmap-toggles">
+        {entities.map(({ id, label }) => (
+          <label key={id} className="heatmap-toggle">
+            <input type="checkbox" checked={visible.includes(id)} onChange={() => onToggle(id)} />
+            <span className="heatmap-swatch" style={{ background: getHeatmapColor(id, robots) }} />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {!is2DView && visible.length > 0 && (
+        <p className="heatmap-note">Heatmaps are drawn in the 2D view only.</p>
+      )}
+
+      <div className="heatmap-actions">
+        <button
+          className="btn btn-secondary"
+          onClick={onExportPng}
+          disabled={visible.length === 0}
+          title="Download the selected heatmaps drawn on the field as PNG"
+        >
+          Export PNG
+        </button>
+        <button
+          className="btn btn-secondary"
+          onClick={onExportCsv}
+          disabled={visible.length === 0}
+          title="Download the selected heatmap grids (seconds per 5 cm cell) as CSV"
+        >
+          Export CSV
+        </button>
+      </div>
+    </div>
+  );
+};
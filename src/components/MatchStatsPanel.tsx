@@ -0,0 +1,75 @@
+// ============================================================
+// RoboCup Jr. Simulator - Match Stats Panel Component
+// ============================================================
+
+import React from 'react';
+import { MatchStatsReport, TeamStats } from '../simulator/MatchStats';
+import { getRobotLabel } from '../simulator/Roster';
+
+interface MatchStatsPanelProps {
+  report: MatchStatsReport;
+  matchFinished: boolean;
+  onExport: () => void;
+}
+
+const TEAM_ROWS: { label: string; value: (team: TeamStats) => string }[] = [
+  { label: 'Possession', value: (team) => `${team.possession_pct.toFixed(0)}%` },
+  { label: 'Shots (on target)', value: (team) => `${team.shots} (${team.shots_on_target})` },
+  { label: 'Kicks', value: (team) => `${team.kicks}` },
+  { label: 'Goals (own goals)', value: (team) => `${team.goals} (${team.own_goals})` },
+  { label: 'Robot collisions', value: (team) => `${team.robot_collisions}` },
+];
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(0)}s`;
+
+export const MatchStatsPanel: React.FC<MatchStatsPanelProps> = ({ report, matchFinished, onExport }) => {
+  return (
+    <div className="panel-section">
+      <h3 className="panel-section-title">Match Stats{matchFinished ? ' (final)' : ''}</h3>
+
+      <table className="stats-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th className="team-label blue">Blue</th>
+            <th className="team-label yellow">Yellow</th>
+          </tr>
+        </thead>
+        <tbody>
+          {TEAM_ROWS.map(({ label, value }) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td>{value(report.teams.blue)}</td>
+              <td>{value(report.teams.yellow)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <table className="stats-table">
+        <thead>
+          <tr>
+            <th>Robot</th>
+            <th title="Distance driven">Dist</th>
+            <th title="Time stuck (driving without moving)">Stuck</th>
+            <th title="Time with the robot center beyond the white line">Out</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.robots.map((robot) => (
+            <tr key={robot.id}>
+              <td className={`team-label ${robot.team}`}>{getRobotLabel(robot.id)}</td>
+              <td>{(robot.distance_cm / 100).toFixed(0)}m</td>
+              <td>{formatSeconds(robot.stuck_ms)}</td>
+              <td>{formatSeconds(robot.outer_area_ms)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <button className="btn btn-secondary" onClick={onExport} title="Download the match statistics as JSON">
+        Export JSON
+      </button>
+    </div>
+  );
+};
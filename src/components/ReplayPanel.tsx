@@ -0,0 +1,153 @@
+// ============================================================
+// RoboCup Jr. Simulator - Replay Panel Component
+// ============================================================
+
+import React, { useRef } from 'react';
+import { Replay, REPLAY_FILE_EXTENSION } from '../simulator/MatchRecorder';
+import { getRobotLabel } from '../simulator/Roster';
+
+interface ReplayPanelProps {
+  replay: Replay | null;         // loaded replay (null = live simulation)
+  frameIndex: number;
+  isPlaying: boolean;
+  playbackSpeed: number;
+  recordedFrames: number;        // frames currently held by the live recorder
+  onSave: () => void;
+  onLoad: (file: File) => void;
+  onTogglePlay: () => void;
+  onStep: (frames: number) => void;
+  onSeek: (frameIndex: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 4];
+
+export const ReplayPanel: React.FC<ReplayPanelProps> = ({
+  replay,
+  frameIndex,
+  isPlaying,
+  playbackSpeed,
+  recordedFrames,
+  onSave,
+  onLoad,
+  onTogglePlay,
+  onStep,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onLoad(file);
+    }
+    // Allow loading the same file again
+    e.target.value = '';
+  };
+
+  // Format simulated seconds as M:SS.s
+  const formatSeconds = (ms: number): string => {
+    const seconds = ms / 1000;
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+  };
+
+  if (!replay) {
+    return (
+      <div className="panel-section replay-panel">
+        <h3 className="panel-section-title">Replay</h3>
+        <div className="control-buttons">
+          <button
+            className="btn btn-secondary btn-large"
+            onClick={onSave}
+            disabled={recordedFrames === 0}
+            title="Download the recent ticks of this match as a replay file"
+          >
+            💾 Save
+          </button>
+          <button
+            className="btn btn-secondary btn-large"
+            onClick={() => fileInputRef.current?.click()}
+            title="Open a replay file"
+          >
+            📂 Load
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${REPLAY_FILE_EXTENSION},.jsonl,.gz`}
+          style={{ display: 'none' }}
+          onChange={handleFileChange}
+        />
+      </div>
+    );
+  }
+
+  const lastIndex = replay.frames.length - 1;
+  const frame = replay.frames[frameIndex];
+  const stepMs = replay.header.fixedStepMs;
+  const events = frame?.events ?? [];
+
+  return (
+    <div className="panel-section replay-panel">
+      <h3 className="panel-section-title">Replay (seed {replay.header.seed})</h3>
+
+      <div className="control-buttons">
+        <button className="btn btn-secondary btn-icon" onClick={() => onStep(-1)} title="Previous frame">
+          ⏮
+        </button>
+        <button className="btn btn-primary btn-large" onClick={onTogglePlay}>
+          {isPlaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <button className="btn btn-secondary btn-icon" onClick={() => onStep(1)} title="Next frame">
+          ⏭
+        </button>
+      </div>
+
+      <input
+        type="range"
+        className="speed-slider replay-scrubber"
+        min={0}
+        max={Math.max(0, lastIndex)}
+        step={1}
+        value={frameIndex}
+        onChange={(e) => onSeek(parseInt(e.target.value, 10))}
+      />
+      <div className="replay-position">
+        <span>Tick {frame?.tick ?? '-'}</span>
+        <span>{formatSeconds(frameIndex * stepMs)} / {formatSeconds(lastIndex * stepMs)}</span>
+      </div>
+
+      <div className="speed-control">
+        <span className="speed-label">Speed</span>
+        <select
+          className="replay-speed-select"
+          value={playbackSpeed}
+          onChange={(e) => onSpeedChange(parseFloat(e.target.value))}
+        >
+          {PLAYBACK_SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>{speed}x</option>
+          ))}
+        </select>
+        <button className="btn btn-secondary" onClick={onExit} title="Return to the live simulation">
+          Exit
+        </button>
+      </div>
+
+      {events.length > 0 && (
+        <div className="replay-events">
+          {events.map((e, i) => (
+            <div key={i}>⚑ {e.type}{e.robots.length > 0 ? ` (${e.robots.map(getRobotLabel).join(', ')})` : ''}</div>
+          ))}
+        </div>
+      )}
+
+      {replay.header.truncated && (
+        <div className="replay-note">Recording starts mid-match (older ticks were dropped)</div>
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,7 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { Renderer3D } from '../renderer/Renderer3D';
 import { SimulationState, WorldState, PerceptionMode } from '../types';
 import { SimulationEngine } from '../simulator/SimulationEngine';
+import { getRobotLabel } from '../simulator/Roster';
 
 interface RobotCameraViewProps {
   simulationState: SimulationState | null;
@@ -337,7 +338,7 @@ export const RobotCameraView: React.FC<RobotCameraViewProps> = ({
     <div className="robot-camera-view">
       <div className="robot-camera-header">
         <label className="robot-camera-label">
-          {robot.team.toUpperCase()} {robot.role.toUpperCase()}
+          {getRobotLabel(robot.id).toUpperCase()}
         </label>
         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginLeft: 'auto' }}>
           {worldState?.state && (
@@ -3,14 +3,15 @@
 // ============================================================
 
 import React from 'react';
-import { GamePhase } from '../types';
+import { GamePhase, MatchRules } from '../types';
 
 interface ScoreBoardProps {
   scoreBlue: number;
   scoreYellow: number;
   timeMs: number;
-  half: 1 | 2;
+  half: number;
   phase: GamePhase;
+  rules: MatchRules;
 }
 
 export const ScoreBoard: React.FC<ScoreBoardProps> = ({
@@ -19,7 +20,11 @@ export const ScoreBoard: React.FC<ScoreBoardProps> = ({
   timeMs,
   half,
   phase,
+  rules,
 }) => {
+  // After the last half only a golden goal period can follow
+  const goldenGoal = half > rules.halves;
+
   // Format time as MM:SS
   const formatTime = (ms: number): string => {
     const totalSeconds = Math.floor(ms / 1000);
@@ -84,12 +89,14 @@ export const ScoreBoard: React.FC<ScoreBoardProps> = ({
 
       <div className="game-info">
         <div className="info-item">
-          <div className="info-label">Time</div>
-          <div className="info-value">{formatTime(timeMs)}</div>
+          <div className="info-label">{goldenGoal ? 'Time' : 'Time Left'}</div>
+          <div className="info-value">
+            {formatTime(goldenGoal ? timeMs : Math.max(0, rules.halfDurationMs - timeMs))}
+          </div>
         </div>
         <div className="info-item">
           <div className="info-label">Half</div>
-          <div className="info-value">{half}</div>
+          <div className="info-value">{goldenGoal ? 'Golden Goal' : `${half}/${rules.halves}`}</div>
         </div>
       </div>
     </div>
@@ -4,14 +4,15 @@
 
 import React, { useCallback } from 'react';
 import Editor from '@monaco-editor/react';
-import { GameMode } from '../types';
+import { RosterRobot } from '../types';
+import { getRobotLabel } from '../simulator/Roster';
 
 interface StrategyEditorProps {
   strategies: Record<string, string>;
   activeTab: string;
   onTabChange: (tab: string) => void;
   onStrategyChange: (robotId: string, code: string) => void;
-  gameMode: GameMode;
+  roster: RosterRobot[];
 }
 
 export const StrategyEditor: React.FC<StrategyEditorProps> = ({
@@ -19,32 +20,11 @@ export const StrategyEditor: React.FC<StrategyEditorProps> = ({
   activeTab,
   onTabChange,
   onStrategyChange,
-  gameMode,
+  roster,
 }) => {
-  // Get available tabs based on game mode
+  // One tab per robot in the roster
   const getTabs = () => {
-    const tabs = [];
-
-    if (gameMode === GameMode.SingleBotAttacker) {
-      tabs.push({ id: 'blue_attacker', label: 'Blue Attacker', team: 'blue' });
-    } else if (gameMode === GameMode.SingleBotDefender) {
-      tabs.push({ id: 'blue_defender', label: 'Blue Defender', team: 'blue' });
-    } else {
-      // SingleTeam or TwoTeam - show both blue robots
-      tabs.push(
-        { id: 'blue_attacker', label: 'Blue Attacker', team: 'blue' },
-        { id: 'blue_defender', label: 'Blue Defender', team: 'blue' }
-      );
-    }
-
-    if (gameMode === GameMode.TwoTeam) {
-      tabs.push(
-        { id: 'yellow_attacker', label: 'Yellow Attacker', team: 'yellow' },
-        { id: 'yellow_defender', label: 'Yellow Defender', team: 'yellow' }
-      );
-    }
-
-    return tabs;
+    return roster.map((robot) => ({ id: robot.id, label: getRobotLabel(robot.id), team: robot.team }));
   };
 
   const tabs = getTabs();
@@ -3,47 +3,30 @@
 // ============================================================
 
 import React from 'react';
-import { GameMode, WorldState } from '../types';
+import { RosterRobot, WorldState } from '../types';
+import { getRobotLabel } from '../simulator/Roster';
+import type { StrategyStatus } from '../simulator/SimulationEngine';
 
 interface WorldViewProps {
   worldStates: Map<string, WorldState>;
-  gameMode: GameMode;
+  roster: RosterRobot[];
   activeTab: string;
   onTabChange: (tab: string) => void;
   strategies: Record<string, { code: string; hash: string; loadTime: number }>;
+  strategyStatus?: StrategyStatus;  // live matches only (not recorded in replays)
 }
 
 export const WorldView: React.FC<WorldViewProps> = ({
   worldStates,
-  gameMode,
+  roster,
   activeTab,
   onTabChange,
   strategies,
+  strategyStatus,
 }) => {
-  // Get available tabs based on game mode
+  // One tab per robot in the roster
   const getTabs = () => {
-    const tabs = [];
-
-    if (gameMode === GameMode.SingleBotAttacker) {
-      tabs.push({ id: 'blue_attacker', label: 'Blue Attacker', team: 'blue' });
-    } else if (gameMode === GameMode.SingleBotDefender) {
-      tabs.push({ id: 'blue_defender', label: 'Blue Defender', team: 'blue' });
-    } else {
-      // SingleTeam or TwoTeam - show both blue robots
-      tabs.push(
-        { id: 'blue_attacker', label: 'Blue Attacker', team: 'blue' },
-        { id: 'blue_defender', label: 'Blue Defender', team: 'blue' }
-      );
-    }
-
-    if (gameMode === GameMode.TwoTeam) {
-      tabs.push(
-        { id: 'yellow_attacker', label: 'Yellow Attacker', team: 'yellow' },
-        { id: 'yellow_defender', label: 'Yellow Defender', team: 'yellow' }
-      );
-    }
-
-    return tabs;
+    return roster.map((robot) => ({ id: robot.id, label: getRobotLabel(robot.id), team: robot.team }));
   };
 
   const tabs = getTabs();
@@ -133,6 +116,15 @@ export const WorldView: React.FC<WorldViewProps> = ({
             <div className="world-state-item">
               <span>Speed:</span> <span>{worldState.v_est.toFixed(1)} cm/s</span>
             </div>
+            {worldState.imu_calibration && (
+              <div className="world-state-item">
+                <span>IMU Cal (sys/gyro/accel/mag):</span>
+                <span>
+                  {worldState.imu_calibration.sys}/{worldState.imu_calibration.gyro}/
+                  {worldState.imu_calibration.accel}/{worldState.imu_calibration.mag}
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="world-state-section">
@@ -178,8 +170,28 @@ export const WorldView: React.FC<WorldViewProps> = ({
             <div className="world-state-item">
               <span>Right:</span> <span>{formatBoolean(worldState.bumper_right)}</span>
             </div>
+            <div className="world-state-item">
+              <span>Ball Captured:</span> <span>{formatBoolean(worldState.ball_captured)}</span>
+            </div>
+            <div className="world-state-item">
+              <span>Ball Held:</span> <span>{formatBoolean(worldState.ball_held)}</span>
+            </div>
+            <div className="world-state-item">
+              <span>Kicker Ready:</span> <span>{formatBoolean(worldState.kicker_ready)}</span>
+            </div>
           </div>
 
+          {(worldState.range_cm?.length ?? 0) > 0 && (
+            <div className="world-state-section">
+              <h4>Range Sensors</h4>
+              {worldState.range_cm.map((range, i) => (
+                <div key={i} className="world-state-item">
+                  <span>Sensor {i}:</span> <span>{range.toFixed(1)} cm</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="world-state-section">
             <h4>Line Sensors</h4>
             <div className="world-state-item">
@@ -194,6 +206,12 @@ export const WorldView: React.FC<WorldViewProps> = ({
             <div className="world-state-item">
               <span>Rear:</span> <span>{formatBoolean(worldState.line_rear)}</span>
             </div>
+            {(worldState.line_reflectance?.length ?? 0) > 0 && (
+              <div className="world-state-item">
+                <span>Reflectance:</span>{' '}
+                <span>{worldState.line_reflectance.map((value) => value.toFixed(2)).join(' ')}</span>
+              </div>
+            )}
           </div>
 
           <div className="world-state-section">
@@ -219,6 +237,35 @@ export const WorldView: React.FC<WorldViewProps> = ({
               <span>Kickoff Us:</span> <span>{formatBoolean(worldState.kickoff_us)}</span>
             </div>
           </div>
+
+          <div className="world-state-section">
+            <h4>Teammate Messages</h4>
+            <div className="world-state-item">
+              <span>Last Received:</span> <span>{worldState.inbox?.length ?? 0}</span>
+            </div>
+            {(worldState.inbox ?? []).map((message, i) => (
+              <div key={i} className="world-state-item">
+                <span>{getRobotLabel(message.from)}:</span> <span>{JSON.stringify(message.data)}</span>
+              </div>
+            ))}
+          </div>
+
+          {strategyStatus?.timing && (
+            <div className="world-state-section">
+              <h4>Strategy</h4>
+              <div className="world-state-item">
+                <span>Tick Time:</span>{' '}
+                <span>{strategyStatus.timing.lastTickMs.toFixed(2)} / {strategyStatus.budgetMs} ms</span>
+              </div>
+              <div className="world-state-item">
+                <span>Over Budget:</span> <span>{strategyStatus.timing.overBudgetTicks} ticks</span>
+              </div>
+              <div className="world-state-item">
+                <span>Enabled:</span> <span>{formatBoolean(!strategyStatus.timing.disabled)}</span>
+              </div>
+              {strategyStatus.error && <div className="editor-error">{strategyStatus.error}</div>}
+            </div>
+          )}
         </div>
       ) : (
         <div className="world-state-empty">
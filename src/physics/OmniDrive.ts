@@ -0,0 +1,93 @@
+// ============================================================
+// RoboCup Jr. Simulator - Omni-Wheel Drive Dynamics
+// ============================================================
+
+import { DriveConfig, DriveWheel } from '../types';
+import { DEFAULT_DRIVE_CONFIG, GRAVITY, ROBOT } from '../types/constants';
+
+// Motion of a robot in its own frame, like Matter's y-down world: x forward, y toward angle + 90 deg
+// (the robot's right on screen), and angular toward increasing angle (clockwise on screen). cm/s and
+// rad/s for a velocity, cm/s^2 and rad/s^2 for an acceleration.
+export interface DriveMotion {
+  x: number;
+  y: number;
+  angular: number;
+}
+
+// Complete a robot's drive with the defaults and reject impossible values
+export function resolveDriveConfig(robotId: string, ...overrides: (Partial<DriveConfig> | undefined)[]): DriveConfig {
+  const resolved: DriveConfig = Object.assign({ ...DEFAULT_DRIVE_CONFIG }, ...overrides);
+  if (resolved.model !== 'kinematic' && resolved.model !== 'dynamic') {
+    throw new Error(`Drive (${robotId}): model must be kinematic or dynamic (got ${resolved.model})`);
+  }
+  if (!(Array.isArray(resolved.wheels) && resolved.wheels.length >= 1 && resolved.wheels.length <= 4)) {
+    throw new Error(`Drive (${robotId}): wheels must be a list of 1 to 4 wheels (one per motor)`);
+  }
+  resolved.wheels.forEach((wheel, i) => {
+    if (!(Number.isFinite(wheel?.positionDeg) && Number.isFinite(wheel?.driveDeg))) {
+      throw new Error(`Drive (${robotId}): wheels[${i}] needs numeric positionDeg and driveDeg`);
+    }
+  });
+  for (const key of ['wheelDistanceCm', 'stallForceN', 'freeSpeedCmS'] as const) {
+    if (!(resolved[key] > 0)) {
+      throw new Error(`Drive (${robotId}): ${key} must be above 0 (got ${resolved[key]})`);
+    }
+  }
+  for (const key of ['maxAccelCmS2', 'traction'] as const) {
+    if (!(resolved[key] >= 0)) {
+      throw new Error(`Drive (${robotId}): ${key} must be 0 or more (got ${resolved[key]})`);
+    }
+  }
+  return resolved;
+}
+
+// Acceleration the wheels give a robot moving at velocity (robot frame, cm/s) and angularVelocity
+// (rad/s) with these motor commands (-1..1, motor1 first). Each motor's force falls linearly from
+// its stall force at standstill to 0 at the command's share of the free speed, so a motor also
+// brakes a wheel turning faster than commanded. A wheel pushing harder than its share of the
+// robot's weight allows slips and pushes only that hard.
+export function driveAcceleration(
+  config: DriveConfig,
+  commands: number[],
+  velocity: { x: number; y: number },
+  angularVelocity: number
+): DriveMotion {
+  const grip = (config.traction * ROBOT.MASS * GRAVITY) / 100 / config.wheels.length; // N
+  let forceX = 0;
+  let forceY = 0;
+  let torque = 0; // N cm
+
+  config.wheels.forEach((wheel, i) => {
+    const [dirX, dirY, lever] = wheelRow(config, wheel);
+    const wheelSpeed = velocity.x * dirX + velocity.y * dirY + angularVelocity * lever;
+
+    const motorForce = config.stallForceN * ((commands[i] ?? 0) - wheelSpeed / config.freeSpeedCmS);
+    const force = Math.max(-grip, Math.min(grip, motorForce));
+    forceX += force * dirX;
+    forceY += force * dirY;
+    torque += force * lever;
+  });
+
+  // The robot as a uniform disc; N/kg is m/s^2
+  const inertia = (ROBOT.MASS * ROBOT.RADIUS * ROBOT.RADIUS) / 2; // kg cm^2
+  const acceleration = { x: (forceX / ROBOT.MASS) * 100, y: (forceY / ROBOT.MASS) * 100, angular: (torque * 100) / inertia };
+
+  const linear = Math.hypot(acceleration.x, acceleration.y);
+  if (config.maxAccelCmS2 > 0 && linear > config.maxAccelCmS2) {
+    const scale = config.maxAccelCmS2 / linear;
+    return { x: acceleration.x * scale, y: acceleration.y * scale, angular: acceleration.angular * scale };
+  }
+  return acceleration;
+}
+
+// A wheel's drive direction (x, y) and its lever arm about the center: the wheel's speed is
+// velocity . direction + angularVelocity * lever
+function wheelRow(config: DriveConfig, wheel: DriveWheel): [number, number, number] {
+  const position = (wheel.positionDeg * Math.PI) / 180;
+  const drive = (wheel.driveDeg * Math.PI) / 180;
+  const dirX = Math.cos(drive);
+  const dirY = Math.sin(drive);
+  // Turning moves the wheel at its lever arm about the center
+  const lever = config.wheelDistanceCm * (Math.cos(position) * dirY - Math.sin(position) * dirX);
+  return [dirX, dirY, lever];
+}
@@ -3,11 +3,15 @@
 // ============================================================
 
 import Matter from 'matter-js';
-import { FIELD, GOAL, BALL, ROBOT, PHYSICS, COLORS } from '../types/constants';
-import { Team, RobotRole, Action } from '../types';
+import { FIELD, GOAL, BALL, ROBOT, PHYSICS, COLORS, DEFAULT_DRIVE_CONFIG } from '../types/constants';
+import { Team, RobotRole, Action, DriveConfig } from '../types';
+import { driveAcceleration } from './OmniDrive';
 
 const { Engine, World, Bodies, Body, Events, Composite, Vector } = Matter;
 
+// Longest single Matter.js update (ms); longer steps are split into equal substeps
+const MAX_SUBSTEP_MS = 16;
+
 // Collision categories for filtering
 const CATEGORY = {
   WALL: 0x0001,
@@ -28,12 +32,59 @@ export interface PhysicsState {
   robots: Map<string, { x: number; y: number; angle: number; vx: number; vy: number }>;
 }
 
+// Full kinematic state of one body (Verlet integration needs the previous position/angle too)
+export interface BodySnapshot {
+  position: { x: number; y: number };
+  positionPrev: { x: number; y: number };
+  angle: number;
+  anglePrev: number;
+  velocity: { x: number; y: number };
+  angularVelocity: number;
+  deltaTime: number;
+  positionImpulse: { x: number; y: number };
+  constraintImpulse: { x: number; y: number; angle: number };
+  // Geometry is stored too: recomputing it from position/angle differs in the last bits
+  vertices: Array<{ x: number; y: number }>;
+  axes: Array<{ x: number; y: number }>;
+  bounds: { min: { x: number; y: number }; max: { x: number; y: number } };
+}
+
+// Active contact between two bodies, with the solver's accumulated impulses (warm starting).
+// Bodies are referenced by their index in the world, which is rebuilt in the same order.
+export interface ContactPairSnapshot {
+  bodyA: number;
+  bodyB: number;
+  depth: number;
+  normal: { x: number; y: number };
+  supports: Array<{ body: 'A' | 'B'; index: number }>;
+  contacts: Array<{ id: number; normalImpulse: number; tangentImpulse: number }>;
+  separation: number;
+  timeCreated: number;
+  timeUpdated: number;
+}
+
+export interface PhysicsSnapshot {
+  timestamp: number;                // Matter engine clock
+  simTimeMs: number;
+  lastOutOfBoundsTime: number | null;
+  outOfBoundsCheckDisabled: boolean;
+  ball: BodySnapshot | null;
+  robots: Array<{ id: string; team: Team; role: RobotRole; body: BodySnapshot; dribbler?: number }>;
+  pairs: ContactPairSnapshot[];
+}
+
 export class PhysicsEngine {
   private engine: Matter.Engine;
   private robots: Map<string, RobotBody> = new Map();
   private ball: Matter.Body | null = null;
   private walls: Matter.Body[] = [];
   private goals: { blue: Matter.Body | null; yellow: Matter.Body | null } = { blue: null, yellow: null };
+  // Dribbler power (0..1) of each robot's last action; robots with the dribbler off are absent
+  private dribblers: Map<string, number> = new Map();
+  // Where each dribbling robot's notch was before this step's move (set by applyAction, used by step)
+  private notchesBeforeMove: Map<string, { x: number; y: number }> = new Map();
+  // Wheel drive of each robot (see configureDrives); robots without one have DEFAULT_DRIVE_CONFIG
+  private drives: Map<string, DriveConfig> = new Map();
   
   // Collision callbacks
   private onGoalScored: ((team: Team) => void) | null = null;
@@ -41,8 +92,10 @@ export class PhysicsEngine {
   private onRobotOutOfBounds: ((robotId: string, goalArea: 'blue' | 'yellow') => void) | null = null;
   private onCollision: ((a: string, b: string) => void) | null = null;
   
-  // Track out of bounds timing for debouncing
+  // Track out of bounds timing for debouncing (simulated time, not wall clock,
+  // so headless runs that step faster than real time debounce correctly)
   private lastOutOfBoundsTime: number | null = null;
+  private simTimeMs: number = 0;
   
   // Flag to disable out-of-bounds checking (e.g., during OutOfBounds phase)
   private outOfBoundsCheckDisabled: boolean = false;
@@ -63,10 +116,12 @@ export class PhysicsEngine {
     // Reset out-of-bounds state
     this.outOfBoundsCheckDisabled = false;
     this.lastOutOfBoundsTime = null;
+    this.simTimeMs = 0;
     
     // Clear any existing bodies first
     World.clear(this.engine.world, false);
     this.robots.clear();
+    this.dribblers.clear();
     
     this.createWalls();
     this.createGoals();
@@ -286,7 +341,8 @@ export class PhysicsEngine {
     const body = Bodies.circle(x, y, ROBOT.RADIUS, {
       restitution: 0.1, // Low restitution to avoid bouncing ball too hard
       friction: ROBOT_FRICTION,
-      frictionAir: 0.1,
+      // A dynamic drive's motors brake it (see driveAcceleration)
+      frictionAir: this.drives.get(id)?.model === 'dynamic' ? 0 : 0.1,
       mass: ROBOT.MASS,
       inertia: Infinity, // Prevent rotation affecting collision
       label: `robot_${id}`,
@@ -302,12 +358,18 @@ export class PhysicsEngine {
     World.add(this.engine.world, body);
   }
 
+  // Wheel drive of each robot, by id (robots created later use theirs too)
+  configureDrives(drives: Map<string, DriveConfig>): void {
+    this.drives = new Map(drives);
+  }
+
   // Remove a robot
   removeRobot(id: string): void {
     const robot = this.robots.get(id);
     if (robot) {
       World.remove(this.engine.world, robot.body);
       this.robots.delete(id);
+      this.dribblers.delete(id);
     }
   }
 
@@ -337,13 +399,61 @@ export class PhysicsEngine {
     });
   }
 
-  // Apply action to a robot using position-based (kinematic) movement
-  // This avoids physics instabilities from setVelocity interfering with collision resolution
-  applyAction(robotId: string, action: Action): void {
+  // Apply action to a robot with its drive model (see DriveConfig) for one step
+  // Returns true if the kicker fired and hit the ball (kick_power scales ROBOT.KICK_FORCE)
+  applyAction(robotId: string, action: Action, deltaMs: number): boolean {
     const robot = this.robots.get(robotId);
-    if (!robot) return;
+    if (!robot) return false;
 
     const body = robot.body;
+
+    // Dribbler rollers act on the ball once the step has moved the robot (see applyDribblers)
+    if (action.dribbler) {
+      this.dribblers.set(robotId, action.dribbler);
+      this.notchesBeforeMove.set(robotId, notchPosition(body));
+    } else {
+      this.dribblers.delete(robotId);
+    }
+
+    // Movement for the whole step (step() simulates all of deltaMs)
+    const dt = deltaMs / 1000;
+    const drive = this.drives.get(robotId) ?? DEFAULT_DRIVE_CONFIG;
+    if (drive.model === 'dynamic') {
+      this.applyWheelDrive(body, drive, action, dt);
+    } else {
+      this.applyKinematicDrive(body, action, dt);
+    }
+    const newAngle = body.angle;
+
+    // Handle kick
+    if (action.kick && this.ball) {
+      const ballPos = this.ball.position;
+      const robotPos = body.position;
+      const toBall = Vector.sub(ballPos, robotPos);
+      const dist = Vector.magnitude(toBall);
+      
+      // Check if ball is in front of robot (in the kicker area)
+      const robotDirection = { x: Math.cos(newAngle), y: Math.sin(newAngle) };
+      const dotProduct = Vector.dot(toBall, robotDirection);
+      
+      if (dist < ROBOT.RADIUS + BALL.RADIUS + ROBOT.KICKER_RANGE && dotProduct > 0) {
+        // Ball is in kick range and in front - apply kick force
+        const kickDir = Vector.normalise(robotDirection);
+        const kickStrength = ROBOT.KICK_FORCE * 0.0005 * (action.kick_power ?? 1); // Reduced kick strength
+        Body.setVelocity(this.ball, {
+          x: kickDir.x * kickStrength,
+          y: kickDir.y * kickStrength,
+        });
+        this.notchesBeforeMove.delete(robotId); // the kick frees the ball from the rollers this step
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Move a robot using position-based (kinematic) movement
+  // This avoids physics instabilities from setVelocity interfering with collision resolution
+  private applyKinematicDrive(body: Matter.Body, action: Action, dt: number): void {
     const angle = body.angle;
     const pos = body.position;
 
@@ -355,8 +465,7 @@ export class PhysicsEngine {
     const strafe   = (motor1 - motor2 + motor3 - motor4) / 4;
     const rotation = (-motor1 + motor2 + motor3 - motor4) / 4;
 
-    // Calculate movement for this frame
-    const dt = 0.016; // ~60 FPS timestep
+    // Calculate movement for this step
     const maxSpeed = ROBOT.MAX_SPEED * dt; // cm per frame
     const maxAngular = (ROBOT.MAX_ANGULAR_SPEED * Math.PI / 180) * dt; // rad per frame
 
@@ -380,36 +489,90 @@ export class PhysicsEngine {
     
     // Set small velocity in direction of movement (helps with collision response)
     Body.setVelocity(body, { x: finalMoveX * 2, y: finalMoveY * 2 });
+  }
 
-    // Handle kick
-    if (action.kick && this.ball) {
-      const ballPos = this.ball.position;
-      const robotPos = body.position;
-      const toBall = Vector.sub(ballPos, robotPos);
-      const dist = Vector.magnitude(toBall);
-      
-      // Check if ball is in front of robot (in the kicker area)
-      const robotDirection = { x: Math.cos(newAngle), y: Math.sin(newAngle) };
-      const dotProduct = Vector.dot(toBall, robotDirection);
-      
-      if (dist < ROBOT.RADIUS + BALL.RADIUS + ROBOT.KICKER_RANGE && dotProduct > 0) {
-        // Ball is in kick range and in front - apply kick force
-        const kickDir = Vector.normalise(robotDirection);
-        const kickStrength = ROBOT.KICK_FORCE * 0.0005; // Reduced kick strength
-        Body.setVelocity(this.ball, {
-          x: kickDir.x * kickStrength,
-          y: kickDir.y * kickStrength,
-        });
-      }
+  // Accelerate a robot with its wheels for one step (see driveAcceleration). Matter.js then moves it
+  // with that velocity, so it pushes and is pushed by the ball, walls and other robots.
+  private applyWheelDrive(body: Matter.Body, drive: DriveConfig, action: Action, dt: number): void {
+    const cos = Math.cos(body.angle);
+    const sin = Math.sin(body.angle);
+
+    // Current motion in the robot's frame (Matter velocities are per 1/60 s step)
+    const velocity = Body.getVelocity(body);
+    const local = {
+      x: (velocity.x * cos + velocity.y * sin) * 60,
+      y: (-velocity.x * sin + velocity.y * cos) * 60,
+    };
+    const angularVelocity = Body.getAngularVelocity(body) * 60;
+
+    const acceleration = driveAcceleration(
+      drive,
+      [action.motor1, action.motor2, action.motor3, action.motor4],
+      local,
+      angularVelocity
+    );
+    const vx = local.x + acceleration.x * dt;
+    const vy = local.y + acceleration.y * dt;
+    Body.setVelocity(body, { x: (vx * cos - vy * sin) / 60, y: (vx * sin + vy * cos) / 60 });
+    Body.setAngularVelocity(body, (angularVelocity + acceleration.angular * dt) / 60);
+  }
+
+  // Backspin from the dribblers: a ball in a notch is accelerated to follow the notch as the robot
+  // drives and turns, and pulled back in when displaced. The rollers' grip limits that acceleration,
+  // so the ball stays on through moderate turns but falls behind under sharp acceleration until it
+  // leaves the notch. The notch's velocity is measured over the step, as the robot actually moved.
+  private applyDribblers(dt: number): void {
+    const ball = this.ball;
+    for (const [robotId, before] of this.notchesBeforeMove) {
+      const robot = this.robots.get(robotId);
+      if (!ball || !robot || dt <= 0 || !this.isBallInNotch(robot.body)) continue;
+
+      const notch = notchPosition(robot.body);
+      const target = {
+        x: (notch.x - before.x) / dt + (notch.x - ball.position.x) * ROBOT.DRIBBLER_PULL,
+        y: (notch.y - before.y) / dt + (notch.y - ball.position.y) * ROBOT.DRIBBLER_PULL,
+      };
+
+      // Matter velocities are cm per 1/60 s step
+      const velocity = { x: ball.velocity.x * 60, y: ball.velocity.y * 60 };
+      const change = Vector.sub(target, velocity);
+      const maxChange = ROBOT.DRIBBLER_GRIP * (this.dribblers.get(robotId) ?? 0) * dt;
+      const scale = Math.min(1, maxChange / (Vector.magnitude(change) || 1));
+      Body.setVelocity(ball, {
+        x: (velocity.x + change.x * scale) / 60,
+        y: (velocity.y + change.y * scale) / 60,
+      });
     }
+    this.notchesBeforeMove.clear();
   }
 
-  // Step the physics simulation
+  // Whether the ball is in a robot's notch: in front, centered within the opening, and touching
+  // the front (the body is a plain circle, so up to the notch's depth away from it)
+  private isBallInNotch(body: Matter.Body): boolean {
+    if (!this.ball) return false;
+    const dx = this.ball.position.x - body.position.x;
+    const dy = this.ball.position.y - body.position.y;
+    const ahead = dx * Math.cos(body.angle) + dy * Math.sin(body.angle);
+    const side = -dx * Math.sin(body.angle) + dy * Math.cos(body.angle);
+    const gap = Math.hypot(dx, dy) - (ROBOT.RADIUS + BALL.RADIUS);
+    return ahead > 0 && Math.abs(side) <= ROBOT.NOTCH_RADIUS && gap <= ROBOT.NOTCH_DEPTH;
+  }
+
+  // Whether a robot's running dribbler has the ball in its notch
+  isBallHeld(robotId: string): boolean {
+    const robot = this.robots.get(robotId);
+    return robot !== undefined && this.dribblers.has(robotId) && this.isBallInNotch(robot.body);
+  }
+
+  // Step the physics simulation by exactly deltaMs
   step(deltaMs: number): void {
-    // Use a smaller timestep to prevent large jumps
-    const clampedDeltaMs = Math.min(deltaMs, 16); // Cap at 16ms (~60 FPS)
-    
-    Engine.update(this.engine, clampedDeltaMs);
+    // Substeps keep each Matter.js update short enough to avoid large jumps
+    const substeps = Math.max(1, Math.ceil(deltaMs / MAX_SUBSTEP_MS - 1e-9));
+    for (let i = 0; i < substeps; i++) {
+      Engine.update(this.engine, deltaMs / substeps);
+    }
+    this.simTimeMs += deltaMs;
+    this.applyDribblers(deltaMs / 1000);
     
     // Post-update ball velocity clamping
     if (this.ball) {
@@ -498,34 +661,109 @@ export class PhysicsEngine {
     const margin = BALL.RADIUS + 2; // Ball center must be past line + small buffer
     
     // Debounce - don't trigger OOB too frequently
-    if (this.lastOutOfBoundsTime && Date.now() - this.lastOutOfBoundsTime < 2000) {
+    if (this.lastOutOfBoundsTime !== null && this.simTimeMs - this.lastOutOfBoundsTime < 2000) {
       return;
     }
 
     // Check each side
     if (pos.x < -fieldHalfW - margin) {
-      this.lastOutOfBoundsTime = Date.now();
+      this.lastOutOfBoundsTime = this.simTimeMs;
       this.onOutOfBounds('left');
       return;
     }
     if (pos.x > fieldHalfW + margin) {
-      this.lastOutOfBoundsTime = Date.now();
+      this.lastOutOfBoundsTime = this.simTimeMs;
       this.onOutOfBounds('right');
       return;
     }
     if (pos.y < -fieldHalfH - margin && Math.abs(pos.x) > goalHalfW) {
-      this.lastOutOfBoundsTime = Date.now();
+      this.lastOutOfBoundsTime = this.simTimeMs;
       this.onOutOfBounds('top');
       return;
     }
     if (pos.y > fieldHalfH + margin && Math.abs(pos.x) > goalHalfW) {
-      this.lastOutOfBoundsTime = Date.now();
+      this.lastOutOfBoundsTime = this.simTimeMs;
       this.onOutOfBounds('bottom');
       return;
     }
   }
 
 
+  // Capture every body, contact and timer so the world can be restored later and continue identically
+  saveSnapshot(): PhysicsSnapshot {
+    const bodies = Composite.allBodies(this.engine.world);
+
+    return {
+      timestamp: this.engine.timing.timestamp,
+      simTimeMs: this.simTimeMs,
+      lastOutOfBoundsTime: this.lastOutOfBoundsTime,
+      outOfBoundsCheckDisabled: this.outOfBoundsCheckDisabled,
+      ball: this.ball ? snapshotBody(this.ball) : null,
+      robots: Array.from(this.robots.values()).map((robot) => ({
+        id: robot.id,
+        team: robot.team,
+        role: robot.role,
+        body: snapshotBody(robot.body),
+        ...(this.dribblers.has(robot.id) && { dribbler: this.dribblers.get(robot.id) }),
+      })),
+      pairs: this.engine.pairs.list
+        .filter((pair: Matter.Pair) => pair.isActive)
+        .map((pair: Matter.Pair) => snapshotPair(pair, bodies)),
+    };
+  }
+
+  // Restore a snapshot taken with saveSnapshot() (robots are recreated to match it)
+  loadSnapshot(snapshot: PhysicsSnapshot): void {
+    for (const robot of this.robots.values()) {
+      World.remove(this.engine.world, robot.body);
+    }
+    this.robots.clear();
+    this.dribblers.clear();
+    Matter.Pairs.clear(this.engine.pairs);
+
+    for (const robot of snapshot.robots) {
+      this.createRobot(robot.id, robot.team, robot.role, robot.body.position.x, robot.body.position.y, robot.body.angle);
+      restoreBody(this.robots.get(robot.id)!.body, robot.body);
+      if (robot.dribbler) this.dribblers.set(robot.id, robot.dribbler);
+    }
+    if (this.ball && snapshot.ball) {
+      restoreBody(this.ball, snapshot.ball);
+    }
+
+    // Recreate ongoing contacts so they neither restart (no new collisionStart events)
+    // nor lose their accumulated impulses
+    const bodies = Composite.allBodies(this.engine.world);
+    for (const saved of snapshot.pairs) {
+      const pair = restorePair(saved, bodies);
+      this.engine.pairs.table[pair.id] = pair;
+      this.engine.pairs.list.push(pair);
+    }
+
+    this.engine.timing.timestamp = snapshot.timestamp;
+    this.simTimeMs = snapshot.simTimeMs;
+    this.lastOutOfBoundsTime = snapshot.lastOutOfBoundsTime;
+    this.outOfBoundsCheckDisabled = snapshot.outOfBoundsCheckDisabled;
+  }
+
+  // Distance (cm) from (x, y) along a ray to the first wall, goal wall or robot, or null if nothing
+  // is within maxDistance. The ball and goal sensors are not hit (range sensors are mounted above
+  // the ball); ignoreRobotId is the robot casting the ray.
+  castRay(x: number, y: number, angle: number, maxDistance: number, ignoreRobotId?: string): number | null {
+    const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+    let nearest: number | null = null;
+
+    for (const body of Composite.allBodies(this.engine.world)) {
+      if (body.isSensor || body === this.ball || body.label === `robot_${ignoreRobotId}`) continue;
+      const hit = body.circleRadius
+        ? rayCircleDistance(x, y, dir, body.position, body.circleRadius)
+        : rayPolygonDistance(x, y, dir, body.vertices);
+      if (hit !== null && hit <= maxDistance && (nearest === null || hit < nearest)) {
+        nearest = hit;
+      }
+    }
+    return nearest;
+  }
+
   // Get current physics state
   getState(): PhysicsState {
     const robotStates = new Map<string, { x: number; y: number; angle: number; vx: number; vy: number }>();
@@ -562,6 +800,13 @@ export class PhysicsEngine {
     }
   }
 
+  // Set ball velocity in cm/s (Matter velocities are cm per 1/60 s step)
+  setBallVelocity(vx: number, vy: number): void {
+    if (this.ball) {
+      Body.setVelocity(this.ball, { x: vx / 60, y: vy / 60 });
+    }
+  }
+
   // Set robot position
   setRobotPosition(id: string, x: number, y: number, angle?: number): void {
     const robot = this.robots.get(id);
@@ -710,6 +955,7 @@ export class PhysicsEngine {
       World.remove(this.engine.world, robot.body);
     }
     this.robots.clear();
+    this.dribblers.clear();
 
     // Reset ball position
     this.setBallPosition(0, 0);
@@ -725,3 +971,168 @@ export class PhysicsEngine {
 // Robot friction constant
 const ROBOT_FRICTION = 0.05;
 
+// Where a ball resting in a robot's notch has its center (the body is a plain circle, so the ball
+// touches its front)
+function notchPosition(body: Matter.Body): { x: number; y: number } {
+  const reach = ROBOT.RADIUS + BALL.RADIUS;
+  return { x: body.position.x + Math.cos(body.angle) * reach, y: body.position.y + Math.sin(body.angle) * reach };
+}
+
+// Distance along a ray (unit direction) to a circle, or null if it misses or the ray starts inside
+function rayCircleDistance(x: number, y: number, dir: Matter.Vector, center: Matter.Vector, radius: number): number | null {
+  const ox = x - center.x;
+  const oy = y - center.y;
+  const b = ox * dir.x + oy * dir.y;
+  const c = ox * ox + oy * oy - radius * radius;
+  const discriminant = b * b - c;
+  if (c < 0 || discriminant < 0) return null;
+  const t = -b - Math.sqrt(discriminant);
+  return t >= 0 ? t : null;
+}
+
+// Distance along a ray (unit direction) to the nearest edge of a convex polygon, or null
+function rayPolygonDistance(x: number, y: number, dir: Matter.Vector, vertices: Matter.Vector[]): number | null {
+  let nearest: number | null = null;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denominator = dir.x * ey - dir.y * ex;
+    if (Math.abs(denominator) < 1e-9) continue;  // parallel
+    const t = ((a.x - x) * ey - (a.y - y) * ex) / denominator;
+    const u = ((a.x - x) * dir.y - (a.y - y) * dir.x) / denominator;
+    if (t >= 0 && u >= 0 && u <= 1 && (nearest === null || t < nearest)) nearest = t;
+  }
+  return nearest;
+}
+
+// Integrator fields Matter.js keeps on every body (missing or read-only in @types/matter-js)
+interface IntegratorState {
+  position: Matter.Vector;
+  positionPrev: Matter.Vector;
+  angle: number;
+  anglePrev: number;
+  velocity: Matter.Vector;
+  speed: number;
+  angularVelocity: number;
+  angularSpeed: number;
+  deltaTime: number;
+  positionImpulse: Matter.Vector;
+  constraintImpulse: { x: number; y: number; angle: number };
+  vertices: Matter.Vector[];
+  axes: Matter.Vector[];
+  bounds: Matter.Bounds;
+}
+
+function snapshotBody(body: Matter.Body): BodySnapshot {
+  const b = body as unknown as IntegratorState;
+  return {
+    position: { x: b.position.x, y: b.position.y },
+    positionPrev: { x: b.positionPrev.x, y: b.positionPrev.y },
+    angle: b.angle,
+    anglePrev: b.anglePrev,
+    velocity: { x: b.velocity.x, y: b.velocity.y },
+    angularVelocity: b.angularVelocity,
+    deltaTime: b.deltaTime,
+    positionImpulse: { x: b.positionImpulse.x, y: b.positionImpulse.y },
+    constraintImpulse: { ...b.constraintImpulse },
+    vertices: b.vertices.map((v) => ({ x: v.x, y: v.y })),
+    axes: b.axes.map((a) => ({ x: a.x, y: a.y })),
+    bounds: { min: { ...b.bounds.min }, max: { ...b.bounds.max } },
+  };
+}
+
+// Collision of a pair as Matter.js keeps it (@types/matter-js has depth read-only, and supports and
+// body vertices as plain vectors instead of vertices that know their body and index)
+type ContactBody = Matter.Body & { vertices: Matter.Vertex[] };
+type PairCollision = Omit<Matter.Collision, 'depth' | 'supports' | 'parentA' | 'parentB'> & {
+  depth: number;
+  supports: Matter.Vertex[];
+  parentA: ContactBody;
+  parentB: ContactBody;
+};
+
+function snapshotPair(pair: Matter.Pair, bodies: Matter.Body[]): ContactPairSnapshot {
+  const collision = pair.collision as PairCollision;
+
+  return {
+    bodyA: bodies.indexOf(collision.bodyA),
+    bodyB: bodies.indexOf(collision.bodyB),
+    depth: collision.depth,
+    normal: { x: collision.normal.x, y: collision.normal.y },
+    supports: collision.supports.map((vertex) => ({
+      body: vertex.body === collision.parentA ? 'A' : 'B',
+      index: vertex.index,
+    })),
+    // pair.contacts is sparse: vertices of A first, then vertices of B
+    contacts: pair.contacts.flatMap((contact, id) =>
+      contact ? [{ id, normalImpulse: contact.normalImpulse, tangentImpulse: contact.tangentImpulse }] : []
+    ),
+    separation: pair.separation,
+    timeCreated: pair.timeCreated,
+    timeUpdated: pair.timeUpdated,
+  };
+}
+
+function restorePair(saved: ContactPairSnapshot, bodies: Matter.Body[]): Matter.Pair {
+  const bodyA = bodies[saved.bodyA];
+  const bodyB = bodies[saved.bodyB];
+  const collision = Matter.Collision.create(bodyA, bodyB) as PairCollision;
+  collision.collided = true;
+  collision.depth = saved.depth;
+  collision.normal = { ...saved.normal };
+  collision.tangent = { x: -saved.normal.y, y: saved.normal.x };
+  collision.penetration = { x: saved.normal.x * saved.depth, y: saved.normal.y * saved.depth };
+  collision.supports = saved.supports.map((support) =>
+    (support.body === 'A' ? collision.parentA : collision.parentB).vertices[support.index]
+  );
+
+  const pair = Matter.Pair.create(collision, saved.timeCreated);
+  const verticesA = collision.parentA.vertices.length;
+  for (const contact of saved.contacts) {
+    const vertex = contact.id < verticesA
+      ? collision.parentA.vertices[contact.id]
+      : collision.parentB.vertices[contact.id - verticesA];
+    pair.contacts[contact.id] ??= { vertex, normalImpulse: 0, tangentImpulse: 0 };
+    pair.contacts[contact.id].normalImpulse = contact.normalImpulse;
+    pair.contacts[contact.id].tangentImpulse = contact.tangentImpulse;
+  }
+  pair.separation = saved.separation;
+  pair.timeUpdated = saved.timeUpdated;
+  return pair;
+}
+
+function restoreBody(body: Matter.Body, snapshot: BodySnapshot): void {
+  // Move the geometry (vertices/bounds) first, then overwrite the integrator state exactly
+  Body.setPosition(body, snapshot.position);
+  Body.setAngle(body, snapshot.angle);
+
+  const b = body as unknown as IntegratorState;
+  b.positionPrev.x = snapshot.positionPrev.x;
+  b.positionPrev.y = snapshot.positionPrev.y;
+  b.anglePrev = snapshot.anglePrev;
+  b.velocity.x = snapshot.velocity.x;
+  b.velocity.y = snapshot.velocity.y;
+  b.speed = Math.hypot(snapshot.velocity.x, snapshot.velocity.y);
+  b.angularVelocity = snapshot.angularVelocity;
+  b.angularSpeed = Math.abs(snapshot.angularVelocity);
+  b.deltaTime = snapshot.deltaTime;
+  b.positionImpulse.x = snapshot.positionImpulse.x;
+  b.positionImpulse.y = snapshot.positionImpulse.y;
+  b.constraintImpulse.x = snapshot.constraintImpulse.x;
+  b.constraintImpulse.y = snapshot.constraintImpulse.y;
+  b.constraintImpulse.angle = snapshot.constraintImpulse.angle;
+  snapshot.vertices.forEach((v, i) => {
+    b.vertices[i].x = v.x;
+    b.vertices[i].y = v.y;
+  });
+  snapshot.axes.forEach((a, i) => {
+    b.axes[i].x = a.x;
+    b.axes[i].y = a.y;
+  });
+  b.bounds.min.x = snapshot.bounds.min.x;
+  b.bounds.min.y = snapshot.bounds.min.y;
+  b.bounds.max.x = snapshot.bounds.max.x;
+  b.bounds.max.y = snapshot.bounds.max.y;
+}
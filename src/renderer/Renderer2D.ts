@@ -4,6 +4,13 @@
 
 import { SimulationState, GamePhase, Team, RobotRole } from '../types';
 import { FIELD, GOAL, BALL, ROBOT, COLORS, NEUTRAL_SPOTS } from '../types/constants';
+import { HeatmapSet, HEATMAP_CELL_CM, HEATMAP_COLUMNS, HEATMAP_ROWS } from '../simulator/Heatmap';
+
+// Heatmap layer to overlay on the field
+export interface HeatmapLayer {
+  entityId: string;
+  color: string;
+}
 
 export class Renderer2D {
   private canvas: HTMLCanvasElement;
@@ -16,6 +23,10 @@ export class Renderer2D {
   private dragTarget: { type: 'ball' | 'robot'; id?: string } | null = null;
   private onDragUpdate: ((type: 'ball' | 'robot', id: string | null, x: number, y: number) => void) | null = null;
 
+  // Heatmap overlay (null = off)
+  private heatmaps: HeatmapSet | null = null;
+  private heatmapLayers: HeatmapLayer[] = [];
+
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
     const ctx = canvas.getContext('2d');
@@ -101,6 +112,9 @@ export class Renderer2D {
     
     // Draw neutral spots
     this.drawNeutralSpots();
+
+    // Draw heatmap overlay below the robots and ball
+    this.drawHeatmaps();
     
     // Draw robots (only if position is valid and not penalized)
     for (const robot of state.robots) {
@@ -297,6 +311,73 @@ export class Renderer2D {
     ctx.restore();
   }
 
+  // Show accumulated heatmaps of the given entities (pass null or no layers to turn it off)
+  setHeatmaps(heatmaps: HeatmapSet | null, layers: HeatmapLayer[]): void {
+    this.heatmaps = heatmaps;
+    this.heatmapLayers = layers;
+  }
+
+  // Each layer is scaled to its own maximum, so a robot that spent little time anywhere still shows
+  private drawHeatmaps(): void {
+    if (!this.heatmaps) return;
+    const { ctx } = this;
+
+    ctx.save();
+    ctx.translate(this.offsetX, this.offsetY);
+    ctx.scale(this.scale, this.scale);
+
+    for (const layer of this.heatmapLayers) {
+      const grid = this.heatmaps.getGrid(layer.entityId);
+      if (!grid) continue;
+      const max = grid.reduce((a, b) => Math.max(a, b), 0);
+      if (max <= 0) continue;
+
+      ctx.fillStyle = layer.color;
+      for (let row = 0; row < HEATMAP_ROWS; row++) {
+        for (let column = 0; column < HEATMAP_COLUMNS; column++) {
+          const value = grid[row * HEATMAP_COLUMNS + column];
+          if (value <= 0) continue;
+          const center = HeatmapSet.cellCenter(column, row);
+          ctx.globalAlpha = 0.15 + 0.6 * Math.sqrt(value / max);
+          ctx.fillRect(
+            center.x - HEATMAP_CELL_CM / 2,
+            center.y - HEATMAP_CELL_CM / 2,
+            HEATMAP_CELL_CM,
+            HEATMAP_CELL_CM
+          );
+        }
+      }
+    }
+
+    ctx.restore();
+  }
+
+  // PNG of the field with the current heatmap layers (no robots or ball)
+  exportHeatmapPng(): Promise<Blob | null> {
+    const canvas = document.createElement('canvas');
+    canvas.width = this.canvas.width;
+    canvas.height = this.canvas.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.resolve(null);
+
+    // Draw with the regular field code into the offscreen canvas
+    const visible = { canvas: this.canvas, ctx: this.ctx };
+    this.canvas = canvas;
+    this.ctx = ctx;
+    try {
+      ctx.fillStyle = COLORS.UI_BACKGROUND;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      this.drawField();
+      this.drawGoals();
+      this.drawHeatmaps();
+    } finally {
+      this.canvas = visible.canvas;
+      this.ctx = visible.ctx;
+    }
+
+    return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+  }
+
   private drawRobot(x: number, y: number, angle: number, team: Team, role: RobotRole): void {
     const { ctx } = this;
 
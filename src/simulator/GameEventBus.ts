@@ -0,0 +1,47 @@
+// ============================================================
+// RoboCup Jr. Simulator - Game Event Bus
+// ============================================================
+
+import { GameEvent, GameEventOf, GameEventType } from '../types';
+
+type Listener = (event: GameEvent) => void;
+
+// Typed publish/subscribe for game events. Listeners run synchronously, in subscription
+// order, during the tick that raised the event.
+export class GameEventBus {
+  private listeners: Map<GameEventType, Set<Listener>> = new Map();
+  private anyListeners: Set<Listener> = new Set();
+
+  // Subscribe to one event type; returns the unsubscribe function
+  on<T extends GameEventType>(type: T, listener: (event: GameEventOf<T>) => void): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    const wrapped = listener as Listener;
+    set.add(wrapped);
+    return () => set!.delete(wrapped);
+  }
+
+  // Subscribe to every event; returns the unsubscribe function
+  onAny(listener: (event: GameEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  emit(event: GameEvent): void {
+    // Copy so listeners may unsubscribe while being notified
+    for (const listener of [...(this.listeners.get(event.type) ?? [])]) {
+      listener(event);
+    }
+    for (const listener of [...this.anyListeners]) {
+      listener(event);
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
@@ -0,0 +1,105 @@
+// ============================================================
+// RoboCup Jr. Simulator - Position Heatmaps
+// ============================================================
+
+import { GamePhase, SimulationState, Team } from '../types';
+import { FIELD, COLORS } from '../types/constants';
+
+export const HEATMAP_CELL_CM = 5;
+export const BALL_HEATMAP_ID = 'ball';
+
+// Grid covering the field including the outer area, cell (0, 0) at the -x/-y corner
+const HALF_W = FIELD.WIDTH / 2 + FIELD.OUTER_WIDTH;
+const HALF_H = FIELD.HEIGHT / 2 + FIELD.OUTER_WIDTH;
+export const HEATMAP_COLUMNS = Math.ceil((HALF_W * 2) / HEATMAP_CELL_CM);
+export const HEATMAP_ROWS = Math.ceil((HALF_H * 2) / HEATMAP_CELL_CM);
+
+// Extra robots of a team cycle through these after the team color
+const ROBOT_COLORS = {
+  blue: [COLORS.TEAM_BLUE, '#00e5ff', '#7c4dff', COLORS.TEAM_BLUE_LIGHT],
+  yellow: [COLORS.TEAM_YELLOW, '#ff5722', '#cddc39', COLORS.TEAM_YELLOW_LIGHT],
+};
+
+// Overlay color of an entity: the ball is orange, robots get their team's colors in roster order
+export function getHeatmapColor(entityId: string, robots: { id: string; team: Team }[]): string {
+  if (entityId === BALL_HEATMAP_ID) return COLORS.BALL_ORANGE;
+  const robot = robots.find((r) => r.id === entityId);
+  if (!robot) return COLORS.UI_ACCENT;
+  const index = robots.filter((r) => r.team === robot.team).indexOf(robot);
+  const palette = ROBOT_COLORS[robot.team];
+  return palette[index % palette.length];
+}
+
+// Time (ms) each robot and the ball spent in each grid cell while the ball was in play
+export class HeatmapSet {
+  private grids: Map<string, Float64Array> = new Map();
+  private lastTick: number = -1;
+
+  // Add one simulation tick. A tick that goes backwards means a new match (reset) and clears
+  // the maps; a repeated tick (e.g. a pause notification) is ignored.
+  record(state: SimulationState, stepMs: number): void {
+    if (state.tick < this.lastTick) this.clear();
+    if (state.tick <= this.lastTick) return;
+    this.lastTick = state.tick;
+    if (state.game.phase !== GamePhase.Playing) return;
+
+    for (const robot of state.robots) {
+      if (!robot.penalized) this.add(robot.id, robot.x, robot.y, stepMs);
+    }
+    this.add(BALL_HEATMAP_ID, state.ball.x, state.ball.y, stepMs);
+  }
+
+  // Entities with data: the ball first, then robots in the order they were seen
+  getEntityIds(): string[] {
+    const ids = Array.from(this.grids.keys());
+    return [...ids.filter((id) => id === BALL_HEATMAP_ID), ...ids.filter((id) => id !== BALL_HEATMAP_ID)];
+  }
+
+  // Row-major grid (HEATMAP_ROWS x HEATMAP_COLUMNS) of ms per cell, or null if never seen
+  getGrid(entityId: string): Float64Array | null {
+    return this.grids.get(entityId) ?? null;
+  }
+
+  // Center of a grid cell in field coordinates (cm)
+  static cellCenter(column: number, row: number): { x: number; y: number } {
+    return {
+      x: -HALF_W + (column + 0.5) * HEATMAP_CELL_CM,
+      y: -HALF_H + (row + 0.5) * HEATMAP_CELL_CM,
+    };
+  }
+
+  // One line per entity and cell: entity,x_cm,y_cm,seconds (cell centers)
+  toCSV(entityIds: string[] = this.getEntityIds()): string {
+    const lines = ['entity,x_cm,y_cm,seconds'];
+    for (const entityId of entityIds) {
+      const grid = this.grids.get(entityId);
+      if (!grid) continue;
+      for (let row = 0; row < HEATMAP_ROWS; row++) {
+        for (let column = 0; column < HEATMAP_COLUMNS; column++) {
+          const { x, y } = HeatmapSet.cellCenter(column, row);
+          lines.push(`${entityId},${x},${y},${(grid[row * HEATMAP_COLUMNS + column] / 1000).toFixed(3)}`);
+        }
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  clear(): void {
+    this.grids.clear();
+    this.lastTick = -1;
+  }
+
+  private add(entityId: string, x: number, y: number, ms: number): void {
+    if (!isFinite(x) || !isFinite(y)) return;
+    const column = Math.floor((x + HALF_W) / HEATMAP_CELL_CM);
+    const row = Math.floor((y + HALF_H) / HEATMAP_CELL_CM);
+    if (column < 0 || column >= HEATMAP_COLUMNS || row < 0 || row >= HEATMAP_ROWS) return;
+
+    let grid = this.grids.get(entityId);
+    if (!grid) {
+      grid = new Float64Array(HEATMAP_ROWS * HEATMAP_COLUMNS);
+      this.grids.set(entityId, grid);
+    }
+    grid[row * HEATMAP_COLUMNS + column] += ms;
+  }
+}
@@ -0,0 +1,179 @@
+// ============================================================
+// RoboCup Jr. Simulator - IMU Model
+// ============================================================
+
+import { Action, ImuCalibration, ImuConfig, RosterRobot, WorldState } from '../types';
+import { DEFAULT_IMU_CONFIG, FIELD, GOAL } from '../types/constants';
+import { SeededRandom } from './Random';
+
+// IMU state of one robot
+interface ImuState {
+  prevAngleDeg: number | null;   // true heading at the previous update
+  updatedAtMs: number;
+  yawRateDps: number;            // true yaw rate over the last update
+  yawNoiseDps: number;           // gyro noise of the last update
+  biasDps: number;               // current gyro bias (gyroBiasDps plus its random walk)
+  headingErrorDeg: number;       // fused heading minus the true heading
+  disturbanceDeg: number;        // current magnetometer error
+  stillMs: number;               // time standing still (gyro calibration)
+  turnedDeg: number;             // rotation so far (magnetometer calibration)
+}
+
+export type ImuSnapshot = [string, ImuState][];
+
+// Below this yaw rate and speed the robot counts as standing still (gyro calibration)
+const STILL_YAW_RATE_DPS = 1;
+const STILL_SPEED = 1;  // cm/s
+
+// Gyro calibration rises one level per this much standing still, the magnetometer per this much turning
+const GYRO_CAL_STEP_MS = 500;
+const MAG_CAL_STEP_DEG = 120;
+
+// A magnetometer error above this makes the BNO055 drop its magnetometer calibration
+const MAG_CAL_LOSS_DEG = 10;
+
+// Complete a robot's IMU config with the defaults and reject impossible values
+export function resolveImuConfig(robotId: string, ...overrides: (Partial<ImuConfig> | undefined)[]): ImuConfig {
+  const resolved: ImuConfig = Object.assign({ ...DEFAULT_IMU_CONFIG }, ...overrides);
+  for (const key of ['gyroNoiseDps', 'biasWalkDps', 'magCorrectionPerS', 'goalDisturbanceRadiusCm'] as const) {
+    if (!(resolved[key] >= 0)) {
+      throw new Error(`IMU (${robotId}): ${key} must be 0 or more (got ${resolved[key]})`);
+    }
+  }
+  for (const key of ['gyroBiasDps', 'goalDisturbanceDeg', 'motorDisturbanceDeg'] as const) {
+    if (!Number.isFinite(resolved[key])) {
+      throw new Error(`IMU (${robotId}): ${key} must be a number (got ${resolved[key]})`);
+    }
+  }
+  return resolved;
+}
+
+// Gyro and magnetometer fusion of every robot. The engine updates it on every simulation step with
+// the true pose, and reads it whenever it builds a WorldState. Random numbers are drawn only for
+// robots whose config has noise or bias instability.
+export class ImuModel {
+  private rng: SeededRandom;
+  private configs: Map<string, ImuConfig> = new Map();
+  private states: Map<string, ImuState> = new Map();
+
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
+  // IMU of every robot (defaults: SimulationConfig.imu)
+  configure(roster: RosterRobot[], defaults?: Partial<ImuConfig>): void {
+    this.configs = new Map(roster.map((robot) => [robot.id, resolveImuConfig(robot.id, defaults, robot.imu)]));
+    this.states.clear();
+  }
+
+  // Advance a robot's IMU by one step. motors: the command driving the robot this step.
+  update(
+    robotId: string,
+    pose: { x: number; y: number; angle: number; vx: number; vy: number },
+    motors: Action,
+    nowMs: number,
+    deltaMs: number
+  ): void {
+    const config = this.configs.get(robotId) ?? DEFAULT_IMU_CONFIG;
+    const state = this.getState(robotId, config);
+    const dt = deltaMs / 1000;
+    const angleDeg = (pose.angle * 180) / Math.PI;
+
+    // A robot that was off the field (penalty) reappears somewhere else: no rate from that jump
+    const continuous = state.prevAngleDeg !== null && nowMs - state.updatedAtMs <= deltaMs * 1.5;
+    state.yawRateDps = continuous && dt > 0 ? normalizeAngle(angleDeg - state.prevAngleDeg!) / dt : 0;
+    state.prevAngleDeg = angleDeg;
+    state.updatedAtMs = nowMs;
+
+    if (config.biasWalkDps > 0) {
+      state.biasDps += this.rng.gaussian(0, config.biasWalkDps * Math.sqrt(dt));
+    }
+    state.yawNoiseDps = config.gyroNoiseDps > 0 ? this.rng.gaussian(0, config.gyroNoiseDps) : 0;
+    state.headingErrorDeg += state.biasDps * dt;
+
+    // Magnetometer: steel goal frames and motor currents bend the field it measures
+    const goalY = FIELD.HEIGHT / 2 + GOAL.DEPTH / 2;
+    const goalFalloff = (y: number) =>
+      config.goalDisturbanceRadiusCm > 0
+        ? Math.max(0, 1 - Math.hypot(pose.x, pose.y - y) / config.goalDisturbanceRadiusCm)
+        : 0;
+    const motorLoad = (Math.abs(motors.motor1) + Math.abs(motors.motor2) + Math.abs(motors.motor3) + Math.abs(motors.motor4)) / 4;
+    state.disturbanceDeg =
+      config.goalDisturbanceDeg * (goalFalloff(-goalY) - goalFalloff(goalY)) + config.motorDisturbanceDeg * motorLoad;
+
+    const calibration = this.getCalibration(state, config);
+    const correction = Math.min(1, config.magCorrectionPerS * (calibration.mag / 3) * dt);
+    state.headingErrorDeg += (state.disturbanceDeg - state.headingErrorDeg) * correction;
+
+    // Calibration: the gyro while standing still, the magnetometer while turning (lost when disturbed)
+    const still = Math.abs(state.yawRateDps) < STILL_YAW_RATE_DPS && Math.hypot(pose.vx, pose.vy) < STILL_SPEED;
+    state.stillMs = still ? state.stillMs + deltaMs : state.stillMs;
+    state.turnedDeg += Math.abs(state.yawRateDps) * dt;
+    if (Math.abs(state.disturbanceDeg) > MAG_CAL_LOSS_DEG) {
+      state.turnedDeg = Math.min(state.turnedDeg, MAG_CAL_STEP_DEG);
+    }
+  }
+
+  // Write a robot's IMU readings into its WorldState (heading_deg holds the true heading). Draws
+  // no random numbers, so displays can read it too.
+  read(robotId: string, worldState: WorldState): void {
+    const config = this.configs.get(robotId) ?? DEFAULT_IMU_CONFIG;
+    const state = this.getState(robotId, config);
+
+    worldState.heading_deg = (((worldState.heading_deg + state.headingErrorDeg) % 360) + 360) % 360;
+    worldState.yaw_rate_dps = state.yawRateDps + state.biasDps + state.yawNoiseDps;
+    worldState.imu_calibration = this.getCalibration(state, config);
+  }
+
+  // Re-zero every IMU's heading error (robots were placed by hand, e.g. for a kickoff). Calibration
+  // and bias stay, like on a real robot that is picked up and put down.
+  recenter(): void {
+    for (const state of this.states.values()) {
+      state.headingErrorDeg = 0;
+      state.prevAngleDeg = null;
+      state.yawRateDps = 0;
+    }
+  }
+
+  saveSnapshot(): ImuSnapshot {
+    return JSON.parse(JSON.stringify(Array.from(this.states.entries())));
+  }
+
+  loadSnapshot(snapshot: ImuSnapshot): void {
+    this.states = new Map(JSON.parse(JSON.stringify(snapshot)));
+  }
+
+  private getState(robotId: string, config: ImuConfig): ImuState {
+    let state = this.states.get(robotId);
+    if (!state) {
+      state = {
+        prevAngleDeg: null,
+        updatedAtMs: 0,
+        yawRateDps: 0,
+        yawNoiseDps: 0,
+        biasDps: config.gyroBiasDps,
+        headingErrorDeg: 0,
+        disturbanceDeg: 0,
+        stillMs: config.startCalibrated ? 3 * GYRO_CAL_STEP_MS : 0,
+        turnedDeg: config.startCalibrated ? 3 * MAG_CAL_STEP_DEG : 0,
+      };
+      this.states.set(robotId, state);
+    }
+    return state;
+  }
+
+  private getCalibration(state: ImuState, config: ImuConfig): ImuCalibration {
+    const gyro = Math.min(3, Math.floor(state.stillMs / GYRO_CAL_STEP_MS));
+    const mag = Math.min(3, Math.floor(state.turnedDeg / MAG_CAL_STEP_DEG));
+    // The accelerometer calibrates by tilting, which never happens on the field
+    const accel = config.startCalibrated ? 3 : 0;
+    return { sys: Math.min(gyro, mag), gyro, accel, mag };
+  }
+}
+
+function normalizeAngle(deg: number): number {
+  let angle = deg;
+  while (angle > 180) angle -= 360;
+  while (angle < -180) angle += 360;
+  return angle;
+}
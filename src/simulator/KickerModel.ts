@@ -0,0 +1,101 @@
+// ============================================================
+// RoboCup Jr. Simulator - Kicker Model
+// ============================================================
+
+import { Action, KickerConfig, RosterRobot } from '../types';
+import { DEFAULT_KICKER_CONFIG } from '../types/constants';
+
+// Kicker state of one robot
+interface KickerState {
+  firedAtMs: number;             // simulation time of the last firing
+  chargeAfterFiring: number;     // capacitor charge (0..1) the last firing left
+  strength: number;              // kick strength (0..1) of the last firing, 0 once it has hit the ball
+}
+
+export type KickerSnapshot = [string, KickerState][];
+
+// Same slack as the engine's control loop timing, so durations of whole steps aren't missed by rounding
+const TIME_EPSILON_MS = 1e-6;
+
+// Complete a robot's kicker with the defaults and reject impossible values
+export function resolveKickerConfig(robotId: string, ...overrides: (Partial<KickerConfig> | undefined)[]): KickerConfig {
+  const resolved: KickerConfig = Object.assign({ ...DEFAULT_KICKER_CONFIG }, ...overrides);
+  for (const key of ['chargeMs', 'cooldownMs', 'kickDurationMs'] as const) {
+    if (!(resolved[key] >= 0)) {
+      throw new Error(`Kicker (${robotId}): ${key} must be 0 or more (got ${resolved[key]})`);
+    }
+  }
+  return resolved;
+}
+
+// Solenoid kickers of every robot. The engine passes each step's action through it, and it decides
+// when the plunger fires and how hard it kicks. Robots that never fired are fully charged.
+export class KickerModel {
+  private configs: Map<string, KickerConfig> = new Map();
+  private states: Map<string, KickerState> = new Map();
+
+  // Kicker of every robot (defaults: SimulationConfig.kicker)
+  configure(roster: RosterRobot[], defaults?: Partial<KickerConfig>): void {
+    this.configs = new Map(roster.map((robot) => [robot.id, resolveKickerConfig(robot.id, defaults, robot.kicker)]));
+    this.states.clear();
+  }
+
+  // A robot's kicker for one step of action: fires when the action kicks and the kicker has cooled
+  // down. Returns the strength (0..1 of ROBOT.KICK_FORCE) the plunger kicks with this step, or 0
+  // when it is retracted or has already hit the ball.
+  command(robotId: string, action: Action, nowMs: number): number {
+    const config = this.configs.get(robotId) ?? DEFAULT_KICKER_CONFIG;
+    let state = this.states.get(robotId);
+
+    if (action.kick && (!state || this.isCooledDown(state, config, nowMs))) {
+      const charge = state ? this.getCharge(state, config, nowMs) : 1;
+      const strength = charge * (action.kick_power ?? 1);
+      state = { firedAtMs: nowMs, chargeAfterFiring: charge - strength, strength };
+      this.states.set(robotId, state);
+    }
+    return state && this.isPlungerOut(state, config, nowMs) ? state.strength : 0;
+  }
+
+  // The plunger hit the ball: a firing kicks once
+  hit(robotId: string): void {
+    const state = this.states.get(robotId);
+    if (state) state.strength = 0;
+  }
+
+  // Whether a robot's kicker is fully charged and can fire
+  isReady(robotId: string, nowMs: number): boolean {
+    const config = this.configs.get(robotId) ?? DEFAULT_KICKER_CONFIG;
+    const state = this.states.get(robotId);
+    return !state || (this.isCooledDown(state, config, nowMs) && this.getCharge(state, config, nowMs) >= 1);
+  }
+
+  // Recharge every kicker (a new match)
+  reset(): void {
+    this.states.clear();
+  }
+
+  saveSnapshot(): KickerSnapshot {
+    return JSON.parse(JSON.stringify(Array.from(this.states.entries())));
+  }
+
+  loadSnapshot(snapshot: KickerSnapshot): void {
+    this.states = new Map(JSON.parse(JSON.stringify(snapshot)));
+  }
+
+  private getCharge(state: KickerState, config: KickerConfig, nowMs: number): number {
+    if (config.chargeMs <= 0) return 1;
+    return Math.min(1, state.chargeAfterFiring + (nowMs - state.firedAtMs) / config.chargeMs);
+  }
+
+  // The plunger is out on the step it fires and for kickDurationMs
+  private isPlungerOut(state: KickerState, config: KickerConfig, nowMs: number): boolean {
+    const sinceFiringMs = nowMs - state.firedAtMs;
+    return sinceFiringMs === 0 || sinceFiringMs < config.kickDurationMs - TIME_EPSILON_MS;
+  }
+
+  // The kicker can fire again once the cooldown has passed and the plunger is back
+  private isCooledDown(state: KickerState, config: KickerConfig, nowMs: number): boolean {
+    const sinceFiringMs = nowMs - state.firedAtMs;
+    return sinceFiringMs > 0 && sinceFiringMs >= Math.max(config.cooldownMs, config.kickDurationMs) - TIME_EPSILON_MS;
+  }
+}
@@ -0,0 +1,47 @@
+// ============================================================
+// RoboCup Jr. Simulator - Ball Capture Light Gate
+// ============================================================
+
+import { LightGateConfig } from '../types';
+import { BALL, DEFAULT_LIGHT_GATE_CONFIG, ROBOT } from '../types/constants';
+import { SeededRandom } from './Random';
+
+// Complete a robot's light gate with the defaults and reject impossible values
+export function resolveLightGateConfig(
+  robotId: string,
+  ...overrides: (Partial<LightGateConfig> | undefined)[]
+): LightGateConfig {
+  const resolved: LightGateConfig = Object.assign({ ...DEFAULT_LIGHT_GATE_CONFIG }, ...overrides);
+  if (!(resolved.beamDepthCm >= 0 && resolved.beamDepthCm <= ROBOT.NOTCH_DEPTH)) {
+    throw new Error(
+      `Light gate (${robotId}): beamDepthCm must be between 0 and ${ROBOT.NOTCH_DEPTH} (got ${resolved.beamDepthCm})`
+    );
+  }
+  for (const key of ['missRate', 'falsePositiveRate'] as const) {
+    if (!(resolved[key] >= 0 && resolved[key] <= 1)) {
+      throw new Error(`Light gate (${robotId}): ${key} must be between 0 and 1 (got ${resolved[key]})`);
+    }
+  }
+  return resolved;
+}
+
+// Whether the ball interrupts a robot's light gate. The ball has to be in front, centered within
+// the notch opening, and deep enough in the notch to reach the beam. rng adds the gate's noise
+// (omit it for displays, which must not draw from the simulation generator).
+export function readLightGate(
+  pose: { x: number; y: number; angle: number },
+  ball: { x: number; y: number },
+  config: LightGateConfig,
+  rng?: SeededRandom
+): boolean {
+  const dx = ball.x - pose.x;
+  const dy = ball.y - pose.y;
+  const ahead = dx * Math.cos(pose.angle) + dy * Math.sin(pose.angle);
+  const side = -dx * Math.sin(pose.angle) + dy * Math.cos(pose.angle);
+  const gap = Math.hypot(dx, dy) - (ROBOT.RADIUS + BALL.RADIUS);
+  const inBeam = ahead > 0 && Math.abs(side) <= ROBOT.NOTCH_RADIUS && gap <= ROBOT.NOTCH_DEPTH - config.beamDepthCm;
+
+  if (!rng) return inBeam;
+  if (inBeam) return config.missRate > 0 ? !rng.chance(config.missRate) : true;
+  return config.falsePositiveRate > 0 && rng.chance(config.falsePositiveRate);
+}
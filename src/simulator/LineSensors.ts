@@ -0,0 +1,122 @@
+// ============================================================
+// RoboCup Jr. Simulator - Line Sensors
+// ============================================================
+
+import { LineSensorConfig, WorldState } from '../types';
+import { DEFAULT_LINE_SENSOR_CONFIG, FIELD, GOAL, SURFACE_REFLECTANCE } from '../types/constants';
+
+export type LineFlags = Pick<WorldState, 'line_front' | 'line_left' | 'line_right' | 'line_rear'>;
+
+// Complete a robot's line sensor ring with the defaults and reject impossible values
+export function resolveLineSensorConfig(
+  robotId: string,
+  ...overrides: (Partial<LineSensorConfig> | undefined)[]
+): LineSensorConfig {
+  const resolved: LineSensorConfig = Object.assign({ ...DEFAULT_LINE_SENSOR_CONFIG }, ...overrides);
+  if (!(Number.isInteger(resolved.count) && resolved.count >= 1)) {
+    throw new Error(`Line sensors (${robotId}): count must be a whole number of 1 or more (got ${resolved.count})`);
+  }
+  for (const key of ['radiusCm', 'footprintCm'] as const) {
+    if (!(resolved[key] >= 0)) {
+      throw new Error(`Line sensors (${robotId}): ${key} must be 0 or more (got ${resolved[key]})`);
+    }
+  }
+  if (!(resolved.threshold > 0 && resolved.threshold <= 1)) {
+    throw new Error(`Line sensors (${robotId}): threshold must be above 0 and at most 1 (got ${resolved.threshold})`);
+  }
+  return resolved;
+}
+
+// Robot-relative direction (radians, counterclockwise from the front) of sensor i of a ring
+export function lineSensorAngle(config: LineSensorConfig, i: number): number {
+  return (2 * Math.PI * i) / config.count;
+}
+
+// The four line_* flags of a ring's readings: a flag is set when any sensor within 45 deg of its
+// direction is over a line (a sensor exactly between two directions counts for both)
+export function deriveLineFlags(reflectance: number[], config: LineSensorConfig): LineFlags {
+  const flags: LineFlags = { line_front: false, line_left: false, line_right: false, line_rear: false };
+  const directions: [keyof LineFlags, number][] = [
+    ['line_front', 0],
+    ['line_left', 90],
+    ['line_rear', 180],
+    ['line_right', 270],
+  ];
+  reflectance.forEach((value, i) => {
+    if (value < config.threshold) return;
+    const angleDeg = (lineSensorAngle(config, i) * 180) / Math.PI;
+    for (const [flag, directionDeg] of directions) {
+      const offset = Math.abs(((angleDeg - directionDeg + 540) % 360) - 180);
+      if (offset <= 45 + 1e-9) flags[flag] = true;
+    }
+  });
+  return flags;
+}
+
+// Mean reflectance of the floor spot a sensor at (x, y) sees: its center and two rings of points
+// around it, spaced for about equal area each
+export function footprintReflectance(x: number, y: number, footprintCm: number): number {
+  if (footprintCm <= 0) return surfaceReflectance(x, y);
+
+  const radius = footprintCm / 2;
+  let sum = surfaceReflectance(x, y);
+  let samples = 1;
+  for (let ring = 1; ring <= 2; ring++) {
+    const points = 6 * ring;
+    for (let k = 0; k < points; k++) {
+      const angle = (2 * Math.PI * k) / points;
+      sum += surfaceReflectance(x + Math.cos(angle) * (radius * ring) / 2, y + Math.sin(angle) * (radius * ring) / 2);
+      samples++;
+    }
+  }
+  return sum / samples;
+}
+
+// Reflectance of the floor at a point: the white boundary and goal area lines, the green carpet
+// inside the boundary and the tan outer area around it. Line edges aren't sharp: carpet fibres
+// lying over the tape blur them over EDGE_BLUR_CM.
+export function surfaceReflectance(x: number, y: number): number {
+  const halfW = FIELD.WIDTH / 2;
+  const halfH = FIELD.HEIGHT / 2;
+  const background = Math.abs(x) < halfW && Math.abs(y) < halfH ? SURFACE_REFLECTANCE.CARPET : SURFACE_REFLECTANCE.OUTER;
+
+  let edgeDistance = Infinity;
+  for (const [x1, y1, x2, y2] of FIELD_LINES) {
+    edgeDistance = Math.min(edgeDistance, Math.max(x1 - x, x - x2, y1 - y, y - y2, 0));
+  }
+  const coverage = Math.max(0, 1 - edgeDistance / EDGE_BLUR_CM);
+  return background + (SURFACE_REFLECTANCE.LINE - background) * coverage;
+}
+
+// Width (cm) beside a line over which its reflectance fades into the floor around it
+const EDGE_BLUR_CM = 1;
+
+// The white lines as rectangles [xMin, yMin, xMax, yMax]: the boundary, which runs on to the walls
+// and stops at the goal posts, and the goal areas
+const FIELD_LINES: [number, number, number, number][] = (() => {
+  const halfW = FIELD.WIDTH / 2;
+  const halfH = FIELD.HEIGHT / 2;
+  const wallX = FIELD.TOTAL_WIDTH / 2;
+  const wallY = FIELD.TOTAL_HEIGHT / 2;
+  const postX = GOAL.WIDTH / 2 + EDGE_BLUR_CM / 2;
+  const goalAreaW = FIELD.PENALTY_AREA_WIDTH / 2;
+  const areaY = halfH - FIELD.PENALTY_AREA_DEPTH;
+  const w = FIELD.LINE_WIDTH / 2;
+  const lines: [number, number, number, number][] = [
+    [-halfW - w, -wallY, -halfW + w, wallY],
+    [halfW - w, -wallY, halfW + w, wallY],
+    [-wallX, -halfH - w, -postX, -halfH + w],
+    [postX, -halfH - w, wallX, -halfH + w],
+    [-wallX, halfH - w, -postX, halfH + w],
+    [postX, halfH - w, wallX, halfH + w],
+  ];
+  for (const [yMin, yMax] of [[-halfH - w, -areaY + w], [areaY - w, halfH + w]]) {
+    const frontY = yMin < 0 ? -areaY : areaY;
+    lines.push(
+      [-goalAreaW - w, frontY - w, goalAreaW + w, frontY + w],
+      [-goalAreaW - w, yMin, -goalAreaW + w, yMax],
+      [goalAreaW - w, yMin, goalAreaW + w, yMax]
+    );
+  }
+  return lines;
+})();
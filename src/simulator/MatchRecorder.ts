@@ -0,0 +1,165 @@
+// ============================================================
+// RoboCup Jr. Simulator - Match Recorder & Replay Files
+// ============================================================
+
+import { SimulationState, WorldState, Action, GameMode, GameEvent, PerceptionMode, MatchRules } from '../types';
+
+// .rcjreplay file: gzipped JSONL - a header line followed by one line per simulation tick
+
+export const REPLAY_FORMAT = 'rcjreplay';
+export const REPLAY_VERSION = 1;
+export const REPLAY_FILE_EXTENSION = '.rcjreplay';
+
+export interface ReplayHeader {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  seed: number;
+  mode: GameMode;
+  fixedStepMs: number;
+  perceptionMode: PerceptionMode;
+  rules: MatchRules;
+  createdAt: string;       // ISO date of recording start
+  truncated: boolean;      // true if older frames were dropped (recorder frame limit)
+}
+
+// What one robot saw and did during a tick (only present while play is running)
+export interface ReplayRobotFrame {
+  worldState: WorldState;  // strategy input (after perception overrides), incl. mental map
+  action: Action;
+  state: string | null;    // strategy currentState
+  target: string | null;   // strategy currentTarget
+}
+
+export interface ReplayFrame {
+  tick: number;
+  state: SimulationState;
+  robots: Record<string, ReplayRobotFrame>;
+  events: GameEvent[];     // game events raised during this tick
+}
+
+export interface Replay {
+  header: ReplayHeader;
+  frames: ReplayFrame[];
+}
+
+export interface MatchRecorderOptions {
+  // Keep only the most recent N ticks (flight-recorder mode). Unlimited if omitted.
+  maxFrames?: number;
+}
+
+export class MatchRecorder {
+  private header: ReplayHeader | null = null;
+  // Frames are serialized when recorded: strategies keep mutating their mental map objects
+  // across ticks, and a string is far more compact than the live object graph
+  private lines: string[] = [];
+  private pendingEvents: GameEvent[] = [];
+  private truncated: boolean = false;
+  private readonly maxFrames: number;
+
+  constructor(options: MatchRecorderOptions = {}) {
+    this.maxFrames = options.maxFrames ?? Number.POSITIVE_INFINITY;
+  }
+
+  // Start a new recording (drops anything recorded so far)
+  begin(header: Omit<ReplayHeader, 'format' | 'version' | 'createdAt' | 'truncated'>): void {
+    this.header = {
+      format: REPLAY_FORMAT,
+      version: REPLAY_VERSION,
+      ...header,
+      createdAt: new Date().toISOString(),
+      truncated: false,
+    };
+    this.lines = [];
+    this.pendingEvents = [];
+    this.truncated = false;
+  }
+
+  // Game event raised during the current tick (attached to the next recorded frame)
+  recordEvent(event: GameEvent): void {
+    if (!this.header) return;
+    this.pendingEvents.push(event);
+  }
+
+  // Record the end-of-tick state
+  recordFrame(state: SimulationState, robots: Record<string, ReplayRobotFrame>): void {
+    if (!this.header) return;
+
+    const frame: ReplayFrame = { tick: state.tick, state, robots, events: this.pendingEvents };
+    this.lines.push(JSON.stringify(frame));
+    this.pendingEvents = [];
+
+    if (this.lines.length > this.maxFrames) {
+      this.lines.shift();
+      this.truncated = true;
+    }
+  }
+
+  isRecording(): boolean {
+    return this.header !== null;
+  }
+
+  getFrameCount(): number {
+    return this.lines.length;
+  }
+
+  getReplay(): Replay {
+    if (!this.header) {
+      throw new Error('MatchRecorder: nothing recorded (call begin() first)');
+    }
+    return {
+      header: { ...this.header, truncated: this.truncated },
+      frames: this.lines.map((line) => JSON.parse(line) as ReplayFrame),
+    };
+  }
+
+  // Gzipped .rcjreplay bytes of the current recording
+  async export(): Promise<Uint8Array> {
+    if (!this.header) {
+      throw new Error('MatchRecorder: nothing recorded (call begin() first)');
+    }
+    const header = JSON.stringify({ ...this.header, truncated: this.truncated });
+    return gzip([header, ...this.lines].join('\n') + '\n');
+  }
+}
+
+// Serialize a replay to gzipped JSONL
+export async function encodeReplay(replay: Replay): Promise<Uint8Array> {
+  const lines = [replay.header, ...replay.frames].map((entry) => JSON.stringify(entry));
+  return gzip(lines.join('\n') + '\n');
+}
+
+// Parse a .rcjreplay file (plain, uncompressed JSONL is accepted too)
+export async function decodeReplay(data: ArrayBuffer | Uint8Array): Promise<Replay> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const isGzip = bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+  const text = isGzip ? await gunzip(bytes) : new TextDecoder().decode(bytes);
+
+  const lines = text.split('\n').filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Replay file is empty');
+  }
+
+  const header = JSON.parse(lines[0]) as ReplayHeader;
+  if (header.format !== REPLAY_FORMAT) {
+    throw new Error('Not a replay file (missing rcjreplay header)');
+  }
+  if (header.version > REPLAY_VERSION) {
+    throw new Error(`Replay format version ${header.version} is newer than supported (${REPLAY_VERSION})`);
+  }
+
+  return {
+    header,
+    frames: lines.slice(1).map((line) => JSON.parse(line) as ReplayFrame),
+  };
+}
+
+// CompressionStream is available in browsers, Electron and Node 18+
+async function gzip(text: string): Promise<Uint8Array> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function gunzip(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
@@ -0,0 +1,321 @@
+// ============================================================
+// RoboCup Jr. Simulator - Match Statistics
+// ============================================================
+
+import { Action, GameEvent, SimulationState, Team } from '../types';
+import { FIELD, GOAL, TIMING } from '../types/constants';
+
+export interface TeamStats {
+  possession_ms: number;
+  possession_pct: number;    // share of the time either team had the ball (0-100)
+  shots: number;
+  shots_on_target: number;
+  kicks: number;
+  goals: number;             // goals scored (own goals of the opponent included)
+  own_goals: number;         // balls this team put into its own goal
+  robot_collisions: number;
+}
+
+export interface RobotStats {
+  id: string;
+  team: Team;
+  distance_cm: number;
+  touches: number;
+  kicks: number;
+  shots: number;
+  shots_on_target: number;
+  goals: number;
+  own_goals: number;
+  stuck_ms: number;          // driving but staying in place
+  outer_area_ms: number;     // robot center beyond the white line
+  robot_collisions: number;
+}
+
+export interface MatchStatsReport {
+  played_ms: number;         // time in play (countdowns excluded)
+  teams: Record<Team, TeamStats>;
+  robots: RobotStats[];
+}
+
+export interface MatchStatsSnapshot {
+  playedMs: number;
+  possessionMs: Record<Team, number>;
+  goals: Record<Team, number>;
+  ownGoals: Record<Team, number>;
+  robots: RobotStats[];
+  lastPositions: [string, { x: number; y: number }][];
+  pendingShots: string[];
+  lastShotMs: [string, number][];
+  kickingRobots: string[];
+  drivingRobots: string[];
+  anchors: [string, { x: number; y: number; sinceMs: number }][];
+}
+
+// Possession goes to the team of the nearest robot within this distance of the ball (cm);
+// if robots of both teams are that close, to the team that touched it last
+const POSSESSION_RADIUS = 25;
+// A touch that sends the ball toward the opponent goal line at least this fast is a shot (cm/s)
+const SHOT_MIN_SPEED = 60;
+// Further touches by the same robot within this time are part of the same shot (ms)
+const SHOT_COOLDOWN_MS = 1000;
+// Larger per-tick jumps are placements (kickoff, drag and drop), not driving (cm)
+const MAX_STEP_DISTANCE = 10;
+// A driving robot that stays within STUCK_RADIUS for STUCK_MIN_MS is stuck (cm, ms)
+const STUCK_RADIUS = 3;
+const STUCK_MIN_MS = 1000;
+// Motor command magnitude that counts as driving
+const DRIVING_MIN_COMMAND = 0.2;
+
+function emptyTeamStats(): TeamStats {
+  return {
+    possession_ms: 0,
+    possession_pct: 0,
+    shots: 0,
+    shots_on_target: 0,
+    kicks: 0,
+    goals: 0,
+    own_goals: 0,
+    robot_collisions: 0,
+  };
+}
+
+// Statistics of the current match, fed by SimulationEngine while the ball is in play
+export class MatchStats {
+  private playedMs: number = 0;
+  private possessionMs: Record<Team, number> = { blue: 0, yellow: 0 };
+  private goals: Record<Team, number> = { blue: 0, yellow: 0 };
+  private ownGoals: Record<Team, number> = { blue: 0, yellow: 0 };
+  private robots: Map<string, RobotStats> = new Map();
+  private lastPositions: Map<string, { x: number; y: number }> = new Map();
+  private pendingShots: Set<string> = new Set();      // robots that touched/kicked the ball this tick
+  private lastShotMs: Map<string, number> = new Map();
+  private kickingRobots: Set<string> = new Set();     // kicker fired last tick (one kick per firing)
+  private drivingRobots: Set<string> = new Set();     // motors commanded this tick
+  private anchors: Map<string, { x: number; y: number; sinceMs: number }> = new Map(); // stuck detection
+
+  // Robot touched the ball (collision start)
+  recordTouch(robotId: string, team: Team): void {
+    this.getRobot(robotId, team).touches++;
+    this.pendingShots.add(robotId);
+  }
+
+  // Robot-robot collision (collision start)
+  recordRobotCollision(robotA: { id: string; team: Team }, robotB: { id: string; team: Team }): void {
+    this.getRobot(robotA.id, robotA.team).robot_collisions++;
+    this.getRobot(robotB.id, robotB.team).robot_collisions++;
+  }
+
+  // Per robot and playing tick: its strategy's action and whether the kicker hit the ball
+  recordRobotTick(robotId: string, team: Team, action: Action, kicked: boolean): void {
+    const robot = this.getRobot(robotId, team);
+    const command = Math.max(Math.abs(action.motor1), Math.abs(action.motor2), Math.abs(action.motor3), Math.abs(action.motor4));
+    if (command >= DRIVING_MIN_COMMAND) {
+      this.drivingRobots.add(robotId);
+    } else {
+      this.drivingRobots.delete(robotId);
+    }
+    if (kicked && !this.kickingRobots.has(robotId)) {
+      robot.kicks++;
+      this.pendingShots.add(robotId);
+    }
+    if (kicked) {
+      this.kickingRobots.add(robotId);
+    } else {
+      this.kickingRobots.delete(robotId);
+    }
+  }
+
+  // End of a playing tick (after the physics step)
+  recordTick(state: SimulationState, dtMs: number): void {
+    this.playedMs += dtMs;
+    const { ball } = state;
+
+    let nearest: { team: Team; distance: number } | null = null;
+    const teamsNear = new Set<Team>();
+    for (const robotState of state.robots) {
+      if (robotState.penalized) continue;
+      const robot = this.getRobot(robotState.id, robotState.team);
+
+      const last = this.lastPositions.get(robot.id);
+      if (last) {
+        const step = Math.hypot(robotState.x - last.x, robotState.y - last.y);
+        if (step <= MAX_STEP_DISTANCE) robot.distance_cm += step;
+      }
+      this.lastPositions.set(robot.id, { x: robotState.x, y: robotState.y });
+
+      if (Math.abs(robotState.x) > FIELD.WIDTH / 2 || Math.abs(robotState.y) > FIELD.HEIGHT / 2) {
+        robot.outer_area_ms += dtMs;
+      }
+      this.updateStuck(robot, robotState, dtMs);
+
+      const distance = Math.hypot(robotState.x - ball.x, robotState.y - ball.y);
+      if (distance <= POSSESSION_RADIUS) {
+        teamsNear.add(robot.team);
+        if (!nearest || distance < nearest.distance) nearest = { team: robot.team, distance };
+      }
+    }
+
+    const possession = teamsNear.size > 1 ? state.game.last_touch_team : nearest?.team ?? state.game.last_touch_team;
+    if (possession) this.possessionMs[possession] += dtMs;
+
+    for (const robotId of this.pendingShots) {
+      this.evaluateShot(robotId, state);
+    }
+    this.pendingShots.clear();
+  }
+
+  // Goals and own goals come from the game events (robots[0] is the last robot to touch the ball)
+  recordEvent(event: GameEvent): void {
+    if (event.type !== 'goal') return;
+    this.goals[event.team]++;
+    if (event.own_goal) this.ownGoals[event.team === 'blue' ? 'yellow' : 'blue']++;
+
+    const robot = event.robots[0] !== undefined ? this.robots.get(event.robots[0]) : undefined;
+    if (!robot) return;
+
+    if (event.own_goal) {
+      robot.own_goals++;
+    } else if (robot.team === event.team) {
+      robot.goals++;
+      // A goal is always a shot on target, even a slow push that never counted as a shot
+      if (!this.lastShotMs.has(robot.id) || this.playedMs - this.lastShotMs.get(robot.id)! > SHOT_COOLDOWN_MS) {
+        robot.shots++;
+        robot.shots_on_target++;
+        this.lastShotMs.set(robot.id, this.playedMs);
+      }
+    }
+  }
+
+  getReport(): MatchStatsReport {
+    const teams: Record<Team, TeamStats> = { blue: emptyTeamStats(), yellow: emptyTeamStats() };
+    const robots = Array.from(this.robots.values()).map((robot) => ({ ...robot }));
+
+    for (const robot of robots) {
+      const team = teams[robot.team];
+      team.shots += robot.shots;
+      team.shots_on_target += robot.shots_on_target;
+      team.kicks += robot.kicks;
+      team.robot_collisions += robot.robot_collisions;
+    }
+
+    const possessionTotal = this.possessionMs.blue + this.possessionMs.yellow;
+    for (const team of ['blue', 'yellow'] as const) {
+      teams[team].goals = this.goals[team];
+      teams[team].own_goals = this.ownGoals[team];
+      teams[team].possession_ms = this.possessionMs[team];
+      teams[team].possession_pct = possessionTotal > 0 ? (this.possessionMs[team] / possessionTotal) * 100 : 0;
+    }
+
+    return { played_ms: this.playedMs, teams, robots };
+  }
+
+  // JSON export of the report
+  export(): string {
+    return JSON.stringify(this.getReport(), null, 2);
+  }
+
+  reset(): void {
+    this.playedMs = 0;
+    this.possessionMs = { blue: 0, yellow: 0 };
+    this.goals = { blue: 0, yellow: 0 };
+    this.ownGoals = { blue: 0, yellow: 0 };
+    this.robots.clear();
+    this.lastPositions.clear();
+    this.pendingShots.clear();
+    this.lastShotMs.clear();
+    this.kickingRobots.clear();
+    this.drivingRobots.clear();
+    this.anchors.clear();
+  }
+
+  saveSnapshot(): MatchStatsSnapshot {
+    return {
+      playedMs: this.playedMs,
+      possessionMs: { ...this.possessionMs },
+      goals: { ...this.goals },
+      ownGoals: { ...this.ownGoals },
+      robots: Array.from(this.robots.values()).map((robot) => ({ ...robot })),
+      lastPositions: Array.from(this.lastPositions),
+      pendingShots: Array.from(this.pendingShots),
+      lastShotMs: Array.from(this.lastShotMs),
+      kickingRobots: Array.from(this.kickingRobots),
+      drivingRobots: Array.from(this.drivingRobots),
+      anchors: Array.from(this.anchors),
+    };
+  }
+
+  loadSnapshot(snapshot: MatchStatsSnapshot): void {
+    this.playedMs = snapshot.playedMs;
+    this.possessionMs = { ...snapshot.possessionMs };
+    this.goals = { ...snapshot.goals };
+    this.ownGoals = { ...snapshot.ownGoals };
+    this.robots = new Map(snapshot.robots.map((robot) => [robot.id, { ...robot }]));
+    this.lastPositions = new Map(snapshot.lastPositions);
+    this.pendingShots = new Set(snapshot.pendingShots);
+    this.lastShotMs = new Map(snapshot.lastShotMs);
+    this.kickingRobots = new Set(snapshot.kickingRobots);
+    this.drivingRobots = new Set(snapshot.drivingRobots);
+    this.anchors = new Map(snapshot.anchors);
+  }
+
+  // Stuck time starts counting once a driving robot has stayed near one spot for STUCK_MIN_MS
+  private updateStuck(robot: RobotStats, position: { x: number; y: number }, dtMs: number): void {
+    const anchor = this.anchors.get(robot.id);
+    const driving = this.drivingRobots.has(robot.id);
+    if (!driving || !anchor || Math.hypot(position.x - anchor.x, position.y - anchor.y) > STUCK_RADIUS) {
+      this.anchors.set(robot.id, { x: position.x, y: position.y, sinceMs: this.playedMs });
+      return;
+    }
+    const stuckForMs = this.playedMs - anchor.sinceMs;
+    if (stuckForMs >= STUCK_MIN_MS) {
+      robot.stuck_ms += stuckForMs - dtMs >= STUCK_MIN_MS ? dtMs : stuckForMs;
+    }
+  }
+
+  // A shot leaves the robot toward the opponent goal line fast enough to reach it inside the
+  // field; it is on target if its straight-line path crosses the line between the posts
+  private evaluateShot(robotId: string, state: SimulationState): void {
+    const robot = this.robots.get(robotId);
+    if (!robot) return;
+    const lastShot = this.lastShotMs.get(robotId);
+    if (lastShot !== undefined && this.playedMs - lastShot <= SHOT_COOLDOWN_MS) return;
+
+    const { ball } = state;
+    // Ball velocity is in cm per physics step
+    const stepsPerSecond = 1000 / TIMING.PHYSICS_STEP;
+    const speed = Math.hypot(ball.vx, ball.vy) * stepsPerSecond;
+    // Blue attacks the yellow goal at +y, yellow the blue goal at -y
+    const goalLineY = robot.team === 'blue' ? FIELD.HEIGHT / 2 : -FIELD.HEIGHT / 2;
+    const towardGoal = robot.team === 'blue' ? ball.vy > 0 : ball.vy < 0;
+    if (speed < SHOT_MIN_SPEED || !towardGoal) return;
+
+    const crossingX = ball.x + (ball.vx / ball.vy) * (goalLineY - ball.y);
+    if (Math.abs(crossingX) > FIELD.WIDTH / 2) return;
+
+    robot.shots++;
+    if (Math.abs(crossingX) <= GOAL.WIDTH / 2) robot.shots_on_target++;
+    this.lastShotMs.set(robotId, this.playedMs);
+  }
+
+  private getRobot(robotId: string, team: Team): RobotStats {
+    let robot = this.robots.get(robotId);
+    if (!robot) {
+      robot = {
+        id: robotId,
+        team,
+        distance_cm: 0,
+        touches: 0,
+        kicks: 0,
+        shots: 0,
+        shots_on_target: 0,
+        goals: 0,
+        own_goals: 0,
+        stuck_ms: 0,
+        outer_area_ms: 0,
+        robot_collisions: 0,
+      };
+      this.robots.set(robotId, robot);
+    }
+    return robot;
+  }
+}
@@ -0,0 +1,48 @@
+// ============================================================
+// RoboCup Jr. Simulator - Match Timeline
+// ============================================================
+
+import { GameEvent, GameEventType } from '../types';
+
+export interface TimelineQuery {
+  types?: GameEventType[];
+  robot?: string;        // only events involving this robot
+  fromTick?: number;     // inclusive
+  toTick?: number;       // inclusive
+}
+
+// Ordered record of every game event of the current match
+export class MatchTimeline {
+  private events: GameEvent[] = [];
+
+  add(event: GameEvent): void {
+    this.events.push(event);
+  }
+
+  // Events matching every given criterion, in the order they happened
+  query(query: TimelineQuery = {}): GameEvent[] {
+    return this.events.filter((event) =>
+      (!query.types || query.types.includes(event.type)) &&
+      (query.robot === undefined || event.robots.includes(query.robot)) &&
+      (query.fromTick === undefined || event.tick >= query.fromTick) &&
+      (query.toTick === undefined || event.tick <= query.toTick)
+    );
+  }
+
+  getEvents(): GameEvent[] {
+    return [...this.events];
+  }
+
+  // JSON array of all events (the format loadEvents() and snapshots use)
+  export(): string {
+    return JSON.stringify(this.events, null, 2);
+  }
+
+  loadEvents(events: GameEvent[]): void {
+    this.events = events.map((event) => ({ ...event }));
+  }
+
+  clear(): void {
+    this.events = [];
+  }
+}
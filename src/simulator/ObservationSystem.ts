@@ -3,8 +3,12 @@
 // ============================================================
 
 import { PhysicsState } from '../physics/PhysicsEngine';
-import { WorldState, Observation, createDefaultObservation, createDefaultWorldState } from '../types';
-import { FIELD, GOAL, ROBOT } from '../types/constants';
+import { LineSensorConfig, WorldState, Observation, createDefaultObservation, createDefaultWorldState } from '../types';
+import { DEFAULT_LINE_SENSOR_CONFIG, FIELD, GOAL, ROBOT, SURFACE_REFLECTANCE } from '../types/constants';
+import { deriveLineFlags, footprintReflectance, lineSensorAngle } from './LineSensors';
+
+// Last world position of each line sensor, in ring order (for path-based line crossing detection)
+export type SensorPositions = { x: number; y: number }[];
 
 export class ObservationSystem {
   // Camera/vision parameters
@@ -14,22 +18,53 @@ export class ObservationSystem {
   private readonly MAX_DISTANCE = 350; // cm max detection distance
 
   // Track previous sensor positions for path-based line crossing detection
-  private previousSensorPositions: Map<string, {
-    front: { x: number; y: number };
-    left: { x: number; y: number };
-    right: { x: number; y: number };
-    rear: { x: number; y: number };
-  }> = new Map();
+  private previousSensorPositions: Map<string, SensorPositions> = new Map();
+
+  private debugLogging: boolean = true;
+  // Counts sensing reads to log one in every DEBUG_SAMPLE_EVERY of them (never the simulation's RNG)
+  private debugSampleCount = 0;
+  private readonly DEBUG_SAMPLE_EVERY = 100;
+
+  // Forget per-robot sensor history (e.g. after a reset)
+  reset(): void {
+    this.previousSensorPositions.clear();
+  }
+
+  // Per-robot sensor history, keyed by robot id
+  saveSnapshot(): Record<string, SensorPositions> {
+    return JSON.parse(JSON.stringify(Object.fromEntries(this.previousSensorPositions)));
+  }
 
-  constructor() {}
+  loadSnapshot(snapshot: Record<string, SensorPositions>): void {
+    this.previousSensorPositions = new Map(Object.entries(JSON.parse(JSON.stringify(snapshot))));
+  }
+
+  // Enable/disable diagnostic console logging
+  setDebugLogging(enabled: boolean): void {
+    this.debugLogging = enabled;
+  }
+
+  private debugLog(...args: unknown[]): void {
+    if (this.debugLogging) {
+      console.log(...args);
+    }
+  }
 
-  // Calculate complete world state for a robot
+  private sampleDebug(): boolean {
+    this.debugSampleCount += 1;
+    return this.debugSampleCount % this.DEBUG_SAMPLE_EVERY === 0;
+  }
+
+  // Calculate complete world state for a robot. A display read (readOnly) leaves the line sensor
+  // history and the debug sampling alone, so it doesn't change what the robot senses next step.
   calculateWorldState(
     robotId: string,
     physicsState: PhysicsState,
     timeMs: number,
     deltaS: number,
-    isBlueTeam: boolean
+    isBlueTeam: boolean,
+    lineSensors: LineSensorConfig = DEFAULT_LINE_SENSOR_CONFIG,
+    readOnly: boolean = false
   ): WorldState {
     const robotState = physicsState.robots.get(robotId);
     if (!robotState) {
@@ -41,18 +76,20 @@ export class ObservationSystem {
 
     // Calculate observations
     // Debug: Log ball position occasionally
-    if (Math.random() < 0.01) { // Log 1% of the time
-      console.log(`[ObsSystem] Robot ${robotId} at (${x.toFixed(1)}, ${y.toFixed(1)}), Ball at (${physicsState.ball.x.toFixed(1)}, ${physicsState.ball.y.toFixed(1)})`);
+    const logDebug = !readOnly && this.sampleDebug();
+    if (logDebug) {
+      this.debugLog(`[ObsSystem] Robot ${robotId} at (${x.toFixed(1)}, ${y.toFixed(1)}), Ball at (${physicsState.ball.x.toFixed(1)}, ${physicsState.ball.y.toFixed(1)})`);
     }
     
     const ballObs = this.calculateObservation(
       x, y, angle,
-      physicsState.ball.x, physicsState.ball.y
+      physicsState.ball.x, physicsState.ball.y,
+      logDebug
     );
     
     // Debug: Log ball observation result occasionally
-    if (Math.random() < 0.01) {
-      console.log(`[ObsSystem] Robot ${robotId} ball obs: visible=${ballObs.visible}, distance=${ballObs.distance.toFixed(1)}, angle=${ballObs.angle_deg.toFixed(1)}`);
+    if (logDebug) {
+      this.debugLog(`[ObsSystem] Robot ${robotId} ball obs: visible=${ballObs.visible}, distance=${ballObs.distance.toFixed(1)}, angle=${ballObs.angle_deg.toFixed(1)}`);
     }
 
     // Goal positions (blue goal at top, yellow at bottom)
@@ -74,12 +111,9 @@ export class ObservationSystem {
     const bumperLeft = this.checkBumper(x, y, angle, Math.PI / 2);
     const bumperRight = this.checkBumper(x, y, angle, -Math.PI / 2);
 
-    // Check line sensors (detect white lines: field boundaries and goal area lines)
+    // Read the line sensor ring (white lines: field boundaries and goal area lines)
     // Use path-based detection to catch fast crossings
-    const lineFront = this.checkLineSensorWithPath(robotId, x, y, angle, 0, 'front');
-    const lineLeft = this.checkLineSensorWithPath(robotId, x, y, angle, Math.PI / 2, 'left');
-    const lineRight = this.checkLineSensorWithPath(robotId, x, y, angle, -Math.PI / 2, 'right');
-    const lineRear = this.checkLineSensorWithPath(robotId, x, y, angle, Math.PI, 'rear');
+    const lineReflectance = this.readLineSensors(robotId, x, y, angle, lineSensors, !readOnly);
 
     // Check if stuck (very low speed despite motors running)
     const stuck = speed < 1 && deltaS > 0.1;
@@ -88,22 +122,26 @@ export class ObservationSystem {
       t_ms: timeMs,
       dt_s: deltaS,
       heading_deg: headingDeg,
-      yaw_rate_dps: 0, // Would need angular velocity tracking
+      yaw_rate_dps: 0, // filled in by the engine (ImuModel), like heading_deg's errors
       v_est: speed,
+      imu_calibration: { sys: 3, gyro: 3, accel: 3, mag: 3 },
       ball: ballObs,
       goal_blue: blueGoalObs,
       goal_yellow: yellowGoalObs,
       bumper_front: bumperFront,
       bumper_left: bumperLeft,
       bumper_right: bumperRight,
-      line_front: lineFront,
-      line_left: lineLeft,
-      line_right: lineRight,
-      line_rear: lineRear,
+      range_cm: [],      // filled in by the engine (range sensors)
+      ball_captured: false, // filled in by the engine (light gate)
+      ball_held: false, // filled in by the engine (dribbler)
+      kicker_ready: true, // filled in by the engine (kicker)
+      line_reflectance: lineReflectance,
+      ...deriveLineFlags(lineReflectance, lineSensors),
       stuck,
       stuck_confidence: stuck ? 0.8 : 0,
       we_are_blue: isBlueTeam,
       kickoff_us: false, // Would need game state
+      inbox: [],         // filled in by the engine (teammate messages)
     };
   }
 
@@ -113,7 +151,8 @@ export class ObservationSystem {
     robotY: number,
     robotAngle: number,
     targetX: number,
-    targetY: number
+    targetY: number,
+    logDebug: boolean = false
   ): Observation {
     const dx = targetX - robotX;
     const dy = targetY - robotY;
@@ -135,8 +174,8 @@ export class ObservationSystem {
     
     // Debug logging for ball (only log occasionally to avoid spam)
     const isBall = Math.abs(targetX) < 10 && Math.abs(targetY) < 10; // Ball is near center
-    if (isBall && Math.random() < 0.01) { // Log 1% of the time
-      console.log(`[ObsSystem] Ball observation: distance=${distance.toFixed(1)}, MAX_DISTANCE=${this.MAX_DISTANCE}, visible=${visible}`);
+    if (isBall && logDebug) {
+      this.debugLog(`[ObsSystem] Ball observation: distance=${distance.toFixed(1)}, MAX_DISTANCE=${this.MAX_DISTANCE}, visible=${visible}`);
     }
 
     // Calculate confidence based on distance only (angle doesn't matter with 360 FOV)
@@ -193,62 +232,37 @@ export class ObservationSystem {
            checkY < -outerHalfH + 5 || checkY > outerHalfH - 5;
   }
 
-  // Check line sensor with path-based detection to catch fast crossings
-  private checkLineSensorWithPath(
+  // Reflectance each sensor of a robot's ring sees. A sensor whose path since the previous reading
+  // (the field center for the first one) crossed a line reports the line, as the robot's firmware
+  // would have caught it between ticks.
+  private readLineSensors(
     robotId: string,
     robotX: number,
     robotY: number,
     robotAngle: number,
-    sensorOffset: number,
-    sensorName: 'front' | 'left' | 'right' | 'rear'
-  ): boolean {
-    const sensorAngle = robotAngle + sensorOffset;
-    const sensorDistance = ROBOT.RADIUS; // Line sensors are exactly at robot edge
-    
-    const currentSensorX = robotX + Math.cos(sensorAngle) * sensorDistance;
-    const currentSensorY = robotY + Math.sin(sensorAngle) * sensorDistance;
-
-    // Get previous sensor position
-    const prevPositions = this.previousSensorPositions.get(robotId);
-    const prevSensorX = prevPositions?.[sensorName]?.x;
-    const prevSensorY = prevPositions?.[sensorName]?.y;
-
-    // Check current position (point-based detection)
-    const currentDetected = this.checkLineAtPoint(currentSensorX, currentSensorY);
-
-    // If we have previous position, check if path crossed a line
-    if (prevSensorX !== undefined && prevSensorY !== undefined) {
-      const pathCrossed = this.checkLinePathCrossing(prevSensorX, prevSensorY, currentSensorX, currentSensorY);
-      if (pathCrossed) {
-        // Update stored position and return true
-        this.updateSensorPosition(robotId, sensorName, currentSensorX, currentSensorY);
-        return true;
+    config: LineSensorConfig,
+    remember: boolean
+  ): number[] {
+    const previous = this.previousSensorPositions.get(robotId);
+    const current: SensorPositions = [];
+    const readings: number[] = [];
+
+    for (let i = 0; i < config.count; i++) {
+      const sensorAngle = robotAngle + lineSensorAngle(config, i);
+      const sensorX = robotX + Math.cos(sensorAngle) * config.radiusCm;
+      const sensorY = robotY + Math.sin(sensorAngle) * config.radiusCm;
+      current.push({ x: sensorX, y: sensorY });
+
+      let reflectance = footprintReflectance(sensorX, sensorY, config.footprintCm);
+      const prev = previous?.[i] ?? { x: 0, y: 0 };
+      if (this.checkLinePathCrossing(prev.x, prev.y, sensorX, sensorY)) {
+        reflectance = Math.max(reflectance, SURFACE_REFLECTANCE.LINE);
       }
+      readings.push(reflectance);
     }
 
-    // Update stored position
-    this.updateSensorPosition(robotId, sensorName, currentSensorX, currentSensorY);
-
-    return currentDetected;
-  }
-
-  // Update stored sensor position
-  private updateSensorPosition(
-    robotId: string,
-    sensorName: 'front' | 'left' | 'right' | 'rear',
-    x: number,
-    y: number
-  ): void {
-    if (!this.previousSensorPositions.has(robotId)) {
-      this.previousSensorPositions.set(robotId, {
-        front: { x: 0, y: 0 },
-        left: { x: 0, y: 0 },
-        right: { x: 0, y: 0 },
-        rear: { x: 0, y: 0 },
-      });
-    }
-    const positions = this.previousSensorPositions.get(robotId)!;
-    positions[sensorName] = { x, y };
+    if (remember) this.previousSensorPositions.set(robotId, current);
+    return readings;
   }
 
   // Check if a line segment crosses any field line
@@ -265,73 +279,73 @@ export class ObservationSystem {
     // Check field boundary lines
     // Top boundary (y = -halfH) - check left and right segments separately (goal opening in middle)
     // Left segment: from -halfW to -GOAL.WIDTH/2
-    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfH, -halfH, -halfW, -GOAL.WIDTH / 2, 'horizontal')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfH, -halfW, -GOAL.WIDTH / 2, 'horizontal')) {
       return true;
     }
     // Right segment: from GOAL.WIDTH/2 to halfW
-    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfH, -halfH, GOAL.WIDTH / 2, halfW, 'horizontal')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfH, GOAL.WIDTH / 2, halfW, 'horizontal')) {
       return true;
     }
     // Bottom boundary (y = halfH) - check left and right segments separately
     // Left segment: from -halfW to -GOAL.WIDTH/2
-    if (this.segmentCrossesLine(x1, y1, x2, y2, halfH, halfH, -halfW, -GOAL.WIDTH / 2, 'horizontal')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, halfH, -halfW, -GOAL.WIDTH / 2, 'horizontal')) {
       return true;
     }
     // Right segment: from GOAL.WIDTH/2 to halfW
-    if (this.segmentCrossesLine(x1, y1, x2, y2, halfH, halfH, GOAL.WIDTH / 2, halfW, 'horizontal')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, halfH, GOAL.WIDTH / 2, halfW, 'horizontal')) {
       return true;
     }
     // Left boundary (x = -halfW)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfW, -halfW, -halfH, halfH, 'vertical')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfW, -halfH, halfH, 'vertical')) {
       return true;
     }
     // Right boundary (x = halfW)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, halfW, halfW, -halfH, halfH, 'vertical')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, halfW, -halfH, halfH, 'vertical')) {
       return true;
     }
 
     // Check goal area lines
     // Blue goal area front line (y = -halfH + goalAreaD)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfH + goalAreaD, -halfH + goalAreaD, -goalAreaW, goalAreaW, 'horizontal')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, -halfH + goalAreaD, -goalAreaW, goalAreaW, 'horizontal')) {
       return true;
     }
     // Blue goal area left side (x = -goalAreaW)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, -goalAreaW, -goalAreaW, -halfH, -halfH + goalAreaD, 'vertical')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, -goalAreaW, -halfH, -halfH + goalAreaD, 'vertical')) {
       return true;
     }
     // Blue goal area right side (x = goalAreaW)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, goalAreaW, goalAreaW, -halfH, -halfH + goalAreaD, 'vertical')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, goalAreaW, -halfH, -halfH + goalAreaD, 'vertical')) {
       return true;
     }
 
     // Yellow goal area front line (y = halfH - goalAreaD)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, halfH - goalAreaD, halfH - goalAreaD, -goalAreaW, goalAreaW, 'horizontal')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, halfH - goalAreaD, -goalAreaW, goalAreaW, 'horizontal')) {
       return true;
     }
     // Yellow goal area left side (x = -goalAreaW)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, -goalAreaW, -goalAreaW, halfH - goalAreaD, halfH, 'vertical')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, -goalAreaW, halfH - goalAreaD, halfH, 'vertical')) {
       return true;
     }
     // Yellow goal area right side (x = goalAreaW)
-    if (this.segmentCrossesLine(x1, y1, x2, y2, goalAreaW, goalAreaW, halfH - goalAreaD, halfH, 'vertical')) {
+    if (this.segmentCrossesLine(x1, y1, x2, y2, goalAreaW, halfH - goalAreaD, halfH, 'vertical')) {
       return true;
     }
 
     return false;
   }
 
-  // Check if a line segment crosses a horizontal or vertical line
+  // Check if a line segment crosses a horizontal line (y = at, x from..to) or a vertical one
+  // (x = at, y from..to)
   private segmentCrossesLine(
     segX1: number, segY1: number,
     segX2: number, segY2: number,
-    lineX1: number, lineY1: number,
-    lineX2: number, lineY2: number,
+    at: number, from: number, to: number,
     orientation: 'horizontal' | 'vertical'
   ): boolean {
     if (orientation === 'horizontal') {
-      const lineY = lineY1; // Horizontal line has constant Y
-      const lineXMin = Math.min(lineX1, lineX2);
-      const lineXMax = Math.max(lineX1, lineX2);
+      const lineY = at;
+      const lineXMin = Math.min(from, to);
+      const lineXMax = Math.max(from, to);
       
       // Check if segment crosses the horizontal line
       const segYMin = Math.min(segY1, segY2);
@@ -350,9 +364,9 @@ export class ObservationSystem {
         }
       }
     } else {
-      const lineX = lineX1; // Vertical line has constant X
-      const lineYMin = Math.min(lineY1, lineY2);
-      const lineYMax = Math.max(lineY1, lineY2);
+      const lineX = at;
+      const lineYMin = Math.min(from, to);
+      const lineYMax = Math.max(from, to);
       
       // Check if segment crosses the vertical line
       const segXMin = Math.min(segX1, segX2);
@@ -374,57 +388,4 @@ export class ObservationSystem {
     
     return false;
   }
-
-  // Check if a point is over a line (original point-based detection)
-  private checkLineAtPoint(sensorX: number, sensorY: number): boolean {
-    const halfW = FIELD.WIDTH / 2;
-    const halfH = FIELD.HEIGHT / 2;
-    const goalAreaW = FIELD.PENALTY_AREA_WIDTH / 2;
-    const goalAreaD = FIELD.PENALTY_AREA_DEPTH;
-    const lineTolerance = FIELD.LINE_WIDTH / 2 + 0.5; // Detect when directly over line
-
-    // Check field boundary lines (white lines marking field edges)
-    // Top boundary (blue goal side)
-    if (Math.abs(sensorY - (-halfH)) < lineTolerance && Math.abs(sensorX) > GOAL.WIDTH / 2) {
-      return true;
-    }
-    // Bottom boundary (yellow goal side)
-    if (Math.abs(sensorY - halfH) < lineTolerance && Math.abs(sensorX) > GOAL.WIDTH / 2) {
-      return true;
-    }
-    // Left boundary
-    if (Math.abs(sensorX - (-halfW)) < lineTolerance) {
-      return true;
-    }
-    // Right boundary
-    if (Math.abs(sensorX - halfW) < lineTolerance) {
-      return true;
-    }
-
-    // Check goal area lines (penalty area rectangles)
-    // Blue goal area (top) - rectangle from y=-halfH to y=-halfH+goalAreaD
-    if (sensorY >= -halfH - lineTolerance && sensorY <= -halfH + goalAreaD + lineTolerance &&
-        Math.abs(sensorX) <= goalAreaW + lineTolerance) {
-      // Check if on the front line (furthest from goal) or side lines
-      if (Math.abs(sensorY - (-halfH + goalAreaD)) < lineTolerance || // Front line
-          Math.abs(sensorX - (-goalAreaW)) < lineTolerance || // Left side
-          Math.abs(sensorX - goalAreaW) < lineTolerance) { // Right side
-        return true;
-      }
-    }
-
-    // Yellow goal area (bottom) - rectangle from y=halfH-goalAreaD to y=halfH
-    if (sensorY >= halfH - goalAreaD - lineTolerance && sensorY <= halfH + lineTolerance &&
-        Math.abs(sensorX) <= goalAreaW + lineTolerance) {
-      // Check if on the front line (furthest from goal) or side lines
-      if (Math.abs(sensorY - (halfH - goalAreaD)) < lineTolerance || // Front line
-          Math.abs(sensorX - (-goalAreaW)) < lineTolerance || // Left side
-          Math.abs(sensorX - goalAreaW) < lineTolerance) { // Right side
-        return true;
-      }
-    }
-
-    return false;
-  }
 }
-
@@ -0,0 +1,76 @@
+// ============================================================
+// RoboCup Jr. Simulator - Seeded Random Number Generator
+// ============================================================
+
+// Small, fast PRNG (mulberry32) shared by every stochastic subsystem of a simulation.
+// Same seed + same sequence of calls = same numbers, on every platform.
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Restart the sequence from a new seed
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Seed the generator was (re)started with
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Internal state (for saving/restoring the exact position in the sequence)
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform float in [min, max)
+  range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  // Uniform integer in [min, max)
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max));
+  }
+
+  // True with probability p
+  chance(p: number): boolean {
+    return this.next() < p;
+  }
+
+  // Normally distributed value (Box-Muller)
+  gaussian(mean: number = 0, stdDev: number = 1): number {
+    const u1 = 1 - this.next(); // (0, 1] - avoids log(0)
+    const u2 = this.next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  // Random element of a non-empty array
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length)];
+  }
+}
+
+// Seed used when none is configured (still reported via getSeed() so the run can be reproduced)
+export function createRandomSeed(): number {
+  return (Date.now() ^ Math.floor(Math.random() * 0xffffffff)) >>> 0;
+}
@@ -0,0 +1,54 @@
+// ============================================================
+// RoboCup Jr. Simulator - Range Sensors
+// ============================================================
+
+import { PhysicsEngine } from '../physics/PhysicsEngine';
+import { RangeSensorConfig } from '../types';
+import { ROBOT } from '../types/constants';
+import { SeededRandom } from './Random';
+
+// Rays cast across a sensor's cone (the nearest hit wins)
+const RAYS_PER_CONE = 5;
+
+// Check a robot's range sensors and return a copy
+export function resolveRangeSensors(robotId: string, sensors: RangeSensorConfig[] = []): RangeSensorConfig[] {
+  return sensors.map((sensor, i) => {
+    const where = `Range sensor ${i} (${robotId})`;
+    if (!Number.isFinite(sensor.angleDeg)) throw new Error(`${where}: angleDeg must be a number (got ${sensor.angleDeg})`);
+    if (!(sensor.fovDeg >= 0 && sensor.fovDeg < 180)) {
+      throw new Error(`${where}: fovDeg must be between 0 and 180 (got ${sensor.fovDeg})`);
+    }
+    if (!(sensor.maxRangeCm > 0)) throw new Error(`${where}: maxRangeCm must be positive (got ${sensor.maxRangeCm})`);
+    if (!(sensor.noiseStdCm >= 0)) throw new Error(`${where}: noiseStdCm must be 0 or more (got ${sensor.noiseStdCm})`);
+    return { ...sensor };
+  });
+}
+
+// Distance (cm) from the robot's edge to the nearest wall, goal wall or robot in each sensor's cone,
+// or the sensor's max range if there is none. rng adds the sensors' noise (omit it for displays,
+// which must not draw from the simulation generator).
+export function readRangeSensors(
+  physics: PhysicsEngine,
+  robotId: string,
+  pose: { x: number; y: number; angle: number },
+  sensors: RangeSensorConfig[],
+  rng?: SeededRandom
+): number[] {
+  return sensors.map((sensor) => {
+    const center = pose.angle + (sensor.angleDeg * Math.PI) / 180;
+    const halfFov = (sensor.fovDeg * Math.PI) / 360;
+    const rays = sensor.fovDeg > 0 ? RAYS_PER_CONE : 1;
+
+    let nearest = sensor.maxRangeCm;
+    for (let i = 0; i < rays; i++) {
+      const angle = rays === 1 ? center : center - halfFov + (2 * halfFov * i) / (rays - 1);
+      const hit = physics.castRay(pose.x, pose.y, angle, sensor.maxRangeCm + ROBOT.RADIUS, robotId);
+      if (hit !== null) nearest = Math.min(nearest, Math.max(0, hit - ROBOT.RADIUS));
+    }
+
+    if (rng && sensor.noiseStdCm > 0 && nearest < sensor.maxRangeCm) {
+      nearest = Math.min(sensor.maxRangeCm, Math.max(0, nearest + rng.gaussian(0, sensor.noiseStdCm)));
+    }
+    return nearest;
+  });
+}
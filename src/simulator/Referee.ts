@@ -4,15 +4,25 @@
 
 import { NEUTRAL_SPOTS, TIMING, FIELD } from '../types/constants';
 import { NeutralSpot } from '../types';
+import { SeededRandom } from './Random';
+
+export interface RefereeSnapshot {
+  lastBallPosition: { x: number; y: number };
+  ballStationaryTime: number;
+}
 
 export class Referee {
   private lastBallPosition: { x: number; y: number } = { x: 0, y: 0 };
   private ballStationaryTime: number = 0;
   private readonly MOVEMENT_THRESHOLD = 1; // cm
+  private lackOfProgressMs: number = TIMING.LACK_OF_PROGRESS;
   
   private onLackOfProgress: (() => void) | null = null;
+  private rng: SeededRandom;
 
-  constructor() {}
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
 
   // Update referee state
   update(deltaMs: number, ballState: { x: number; y: number; vx: number; vy: number }): void {
@@ -24,7 +34,7 @@ export class Referee {
     if (movement < this.MOVEMENT_THRESHOLD) {
       this.ballStationaryTime += deltaMs;
       
-      if (this.ballStationaryTime >= TIMING.LACK_OF_PROGRESS) {
+      if (this.ballStationaryTime >= this.lackOfProgressMs) {
         this.onLackOfProgress?.();
         this.ballStationaryTime = 0;
       }
@@ -66,8 +76,10 @@ export class Referee {
   }
 
   // Find nearest neutral spot to a position
+  // Equidistant spots are tie-broken with the seeded random generator
   findNearestNeutralSpotToPosition(x: number, y: number): NeutralSpot {
-    let nearest = NEUTRAL_SPOTS[0];
+    const TIE_EPSILON = 0.5; // cm
+    let nearest: NeutralSpot[] = [];
     let minDist = Infinity;
 
     for (const spot of NEUTRAL_SPOTS) {
@@ -75,13 +87,15 @@ export class Referee {
       const dy = spot.y - y;
       const dist = Math.sqrt(dx * dx + dy * dy);
       
-      if (dist < minDist) {
+      if (dist < minDist - TIE_EPSILON) {
         minDist = dist;
-        nearest = spot;
+        nearest = [spot];
+      } else if (Math.abs(dist - minDist) <= TIE_EPSILON) {
+        nearest.push(spot);
       }
     }
 
-    return nearest;
+    return nearest.length > 1 ? this.rng.pick(nearest) : nearest[0];
   }
 
   // Check if position is valid (inside field)
@@ -102,6 +116,23 @@ export class Referee {
     this.ballStationaryTime = 0;
   }
 
+  saveSnapshot(): RefereeSnapshot {
+    return {
+      lastBallPosition: { ...this.lastBallPosition },
+      ballStationaryTime: this.ballStationaryTime,
+    };
+  }
+
+  loadSnapshot(snapshot: RefereeSnapshot): void {
+    this.lastBallPosition = { ...snapshot.lastBallPosition };
+    this.ballStationaryTime = snapshot.ballStationaryTime;
+  }
+
+  // Set how long the ball may stay stationary before lack of progress is called (match rules)
+  setLackOfProgressMs(ms: number): void {
+    this.lackOfProgressMs = ms;
+  }
+
   // Set callback for lack of progress
   setOnLackOfProgress(callback: () => void): void {
     this.onLackOfProgress = callback;
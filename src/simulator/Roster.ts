@@ -0,0 +1,62 @@
+// ============================================================
+// RoboCup Jr. Simulator - Team Rosters
+// ============================================================
+
+import { GameMode, RobotRole, RosterRobot, Team } from '../types';
+import { STARTING_POSITIONS } from '../types/constants';
+import { SimulationConfig } from './SimulationEngine';
+
+// Robots of a built-in game mode at their kickoff positions (ids are "<team>_<role>")
+export function createDefaultRoster(
+  mode: GameMode,
+  strategies: Partial<Record<string, string>> = {}
+): RosterRobot[] {
+  const members: [Team, RobotRole][] = [];
+  if (mode !== GameMode.SingleBotDefender) members.push(['blue', 'attacker']);
+  if (mode !== GameMode.SingleBotAttacker) members.push(['blue', 'defender']);
+  if (mode === GameMode.TwoTeam) members.push(['yellow', 'attacker'], ['yellow', 'defender']);
+
+  return members.map(([team, role]) => {
+    const id = `${team}_${role}`;
+    return { id, team, role, start: { ...STARTING_POSITIONS[team][role] }, strategy: strategies[id] };
+  });
+}
+
+// Robots a config plays with: its explicit roster, or the default roster of its mode
+// using the per-robot strategy fields
+export function resolveRoster(config: SimulationConfig): RosterRobot[] {
+  if (!config.roster) {
+    return createDefaultRoster(config.mode, {
+      blue_attacker: config.blueAttackerStrategy,
+      blue_defender: config.blueDefenderStrategy,
+      yellow_attacker: config.yellowAttackerStrategy,
+      yellow_defender: config.yellowDefenderStrategy,
+    });
+  }
+
+  const ids = new Set<string>();
+  for (const robot of config.roster) {
+    if (ids.has(robot.id)) {
+      throw new Error(`Roster: duplicate robot id "${robot.id}"`);
+    }
+    if (robot.team !== 'blue' && robot.team !== 'yellow') {
+      throw new Error(`Roster: robot "${robot.id}" has unknown team "${robot.team}"`);
+    }
+    for (const key of ['controlHz', 'cameraHz'] as const) {
+      if (robot[key] !== undefined && !(robot[key]! > 0)) {
+        throw new Error(`Roster: robot "${robot.id}" ${key} must be positive (got ${robot[key]})`);
+      }
+    }
+    ids.add(robot.id);
+  }
+  return config.roster.map((robot) => ({ ...robot, start: { ...robot.start } }));
+}
+
+// Display name derived from a robot id ("blue_attacker_2" -> "Blue Attacker 2")
+export function getRobotLabel(robotId: string): string {
+  return robotId
+    .split('_')
+    .filter((word) => word.length > 0)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,1055 @@
+// ============================================================
+// RoboCup Jr. Simulator - Declarative Test Scenarios
+// ============================================================
+
+import { SimulationEngine, SimulationConfig } from './SimulationEngine';
+import { ReplayRobotFrame } from './MatchRecorder';
+import { createDefaultRoster } from './Roster';
+import {
+  DriveConfig,
+  GameMode,
+  GamePhase,
+  KickerConfig,
+  LineSensorConfig,
+  MatchRules,
+  PerceptionMode,
+  RangeSensorConfig,
+  RobotRole,
+  RosterRobot,
+  SimulationState,
+  Team,
+  WorldState,
+} from '../types';
+import {
+  FIELD,
+  TIMING,
+  DEFAULT_SENSOR_LATENCY,
+  SENSOR_NOISE_PRESETS,
+  DEFAULT_IMU_CONFIG,
+  RANGE_SENSOR_PRESETS,
+  DEFAULT_LINE_SENSOR_CONFIG,
+  LINE_SENSOR_PRESETS,
+  DEFAULT_LIGHT_GATE_CONFIG,
+  DEFAULT_KICKER_CONFIG,
+  KICKER_PRESETS,
+  DEFAULT_DRIVE_CONFIG,
+  DRIVE_PRESETS,
+} from '../types/constants';
+
+// A scenario sets up a situation on the real engine (robot poses, ball, perception), runs it
+// for a time limit and checks assertions about what happened. Scenario files are JSON or YAML.
+// All times are seconds of simulated time since the scenario started.
+
+export interface ScenarioPose {
+  x: number;                  // cm, field center is (0, 0); blue goal at negative Y
+  y: number;
+  heading_deg?: number;       // same convention as WorldState.heading_deg (90 = facing the yellow goal)
+}
+
+// Roster entry of a scenario (e.g. a 2v1 drill); the pose is the kickoff position
+export interface ScenarioRosterRobot extends ScenarioPose {
+  id: string;
+  team: Team;
+  role: RobotRole;
+  control_hz?: number;        // RosterRobot.controlHz
+  camera_hz?: number;         // RosterRobot.cameraHz
+  sensor_latency?: RosterRobot['sensorLatency'];
+  imu?: RosterRobot['imu'];
+  range_sensors?: ScenarioRangeSensors;
+  line_sensors?: ScenarioLineSensors;
+  light_gate?: RosterRobot['lightGate'];
+  kicker?: ScenarioKicker;
+  drive?: ScenarioDrive;
+}
+
+// Range sensors: the id of a RANGE_SENSOR_PRESETS layout or a list of RangeSensorConfig
+export type ScenarioRangeSensors = string | RangeSensorConfig[];
+
+// Line sensor ring: the id of a LINE_SENSOR_PRESETS ring or overrides of the default ring
+export type ScenarioLineSensors = string | Partial<LineSensorConfig>;
+
+// Kicker: the id of a KICKER_PRESETS kicker or overrides of the default kicker
+export type ScenarioKicker = string | Partial<KickerConfig>;
+
+// Drive: the id of a DRIVE_PRESETS drive or overrides of the default drive
+export type ScenarioDrive = string | Partial<DriveConfig>;
+
+export interface ScenarioBall {
+  x: number;
+  y: number;
+  vx?: number;                // cm/s
+  vy?: number;
+  path?: ScenarioWaypoint[];  // steered from x, y through these, then released
+}
+
+// A point the ball is carried through at t_s seconds, in a straight line from the previous one
+export interface ScenarioWaypoint {
+  t_s: number;
+  x: number;
+  y: number;
+}
+
+// Sensor readings forced onto a robot's WorldState before its strategy runs
+export interface ScenarioInjection {
+  robot?: string;             // all robots if omitted
+  from_s?: number;
+  to_s?: number;
+  every_s?: number;           // repeat as pulses of for_s seconds instead of holding the whole window
+  for_s?: number;
+  set: Record<string, unknown>; // WorldState fields; observation fields as "ball.visible"
+}
+
+export type ScenarioAssertion =
+  | { type: 'ball_in_goal'; goal: Team; within_s?: number }
+  | { type: 'no_goal'; goal: Team }
+  | { type: 'no_own_goal'; team?: Team }
+  | { type: 'stays_in_half'; robot: string; half?: 'own' | 'opponent'; margin_cm?: number }
+  | { type: 'reaches_ball'; robot: string; distance_cm: number; within_s?: number }
+  | {
+      type: 'state_time';
+      robot: string;
+      states: string[];
+      from_s?: number;
+      to_s?: number;
+      min_fraction?: number;
+      max_fraction?: number;
+    }
+  | { type: 'boundary_time'; robot: string; margin_cm: number; max_fraction: number }
+  | {
+      type: 'zone_time';
+      robot: string;
+      half_width_cm: number;    // the zone is |x| <= half_width_cm, |y| <= half_height_cm
+      half_height_cm: number;
+      min_fraction?: number;
+      max_fraction?: number;
+    }
+  | { type: 'kicks'; robot: string; min: number; within_s?: number }
+  | { type: 'motor_speed'; robot: string; min: number; from_s?: number; to_s?: number }
+  | { type: 'strafes'; robot: string; from_s?: number; to_s?: number }
+  | { type: 'ball_orbits'; robot: string; distance_cm: number; max: number }
+  | { type: 'direction_flips'; robot: string; distance_cm: number; max: number }
+  | { type: 'ball_speed'; max_cm_s: number; from_s?: number; to_s?: number };
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  mode: GameMode;
+  seed?: number;
+  perception?: PerceptionMode;  // default 'physics' (camera modes need the browser renderers)
+  rules?: Partial<MatchRules>;  // match rule overrides, e.g. a mercy rule or short halves
+  comms?: SimulationConfig['comms'];  // teammate link overrides per team, e.g. a lossy link
+  sensor_latency?: SimulationConfig['sensorLatency'];  // sensor delays (ms) of every robot
+  sensor_noise?: string;        // id of a SENSOR_NOISE_PRESETS profile (default: ideal)
+  imu?: SimulationConfig['imu'];  // IMU of every robot, e.g. a drifting gyro
+  range_sensors?: ScenarioRangeSensors;  // range sensors of every robot
+  line_sensors?: ScenarioLineSensors;    // line sensor ring of every robot
+  light_gate?: SimulationConfig['lightGate'];  // kicker notch light gate of every robot
+  kicker?: ScenarioKicker;      // kicker of every robot, e.g. a charging solenoid
+  drive?: ScenarioDrive;        // drive of every robot, e.g. force-based omni wheels
+  time_limit_s: number;
+  kickoff?: boolean;            // run the kickoff countdown first (default: play starts immediately)
+  roster?: ScenarioRosterRobot[]; // robots on the field (default: the robots of `mode`)
+  robots?: Record<string, ScenarioPose>;  // robots not listed keep their kickoff positions
+  ball?: ScenarioBall;
+  strategies?: Record<string, string>;    // robot id -> strategy file, resolved by the runner
+  inject?: ScenarioInjection[];
+  assertions: ScenarioAssertion[];
+}
+
+export interface ScenarioAssertionResult {
+  description: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ScenarioResult {
+  name: string;
+  passed: boolean;
+  seed: number;
+  simulatedS: number;
+  assertions: ScenarioAssertionResult[];
+}
+
+const ASSERTION_TYPES = [
+  'ball_in_goal',
+  'no_goal',
+  'no_own_goal',
+  'stays_in_half',
+  'reaches_ball',
+  'state_time',
+  'boundary_time',
+  'zone_time',
+  'kicks',
+  'motor_speed',
+  'strafes',
+  'ball_orbits',
+  'direction_flips',
+  'ball_speed',
+];
+
+// Check the shape of parsed scenario data and return it typed. Throws on the first problem.
+export function validateScenario(data: unknown, source: string): Scenario {
+  // Typed explicitly so that a failed check narrows the value it checked
+  const fail: (message: string) => never = (message) => {
+    throw new Error(`${source}: ${message}`);
+  };
+  if (!isRecord(data)) fail('scenario must be an object');
+  const scenario = data;
+
+  if (typeof scenario.name !== 'string' || scenario.name.length === 0) fail('missing "name"');
+  if (!Object.values<unknown>(GameMode).includes(scenario.mode)) {
+    fail(`"mode" must be one of ${Object.values(GameMode).join(', ')}`);
+  }
+  if (!(typeof scenario.time_limit_s === 'number' && scenario.time_limit_s > 0)) {
+    fail('"time_limit_s" must be a positive number');
+  }
+  if (scenario.seed !== undefined && !Number.isFinite(scenario.seed)) fail('"seed" must be a number');
+
+  if (scenario.rules !== undefined && !isRecord(scenario.rules)) fail('"rules" must be a mapping');
+  if (scenario.comms !== undefined && !isRecord(scenario.comms)) fail('"comms" must be a mapping');
+  for (const team of Object.keys(scenario.comms ?? {})) {
+    if (team !== 'blue' && team !== 'yellow') fail(`comms: unknown team "${team}"`);
+  }
+  const checkSensorLatency = (latency: unknown, where: string) => {
+    if (latency === undefined) return;
+    if (!isRecord(latency)) fail(`${where} must be a mapping`);
+    for (const [sensor, ms] of Object.entries(latency)) {
+      if (!(sensor in DEFAULT_SENSOR_LATENCY)) {
+        fail(`${where}: unknown sensor "${sensor}" (one of ${Object.keys(DEFAULT_SENSOR_LATENCY).join(', ')})`);
+      }
+      if (!(typeof ms === 'number' && ms >= 0)) fail(`${where}.${sensor} must be 0 or more ms`);
+    }
+  };
+  checkSensorLatency(scenario.sensor_latency, '"sensor_latency"');
+  const checkImu = (imu: unknown, where: string) => {
+    if (imu === undefined) return;
+    if (!isRecord(imu)) fail(`${where} must be a mapping`);
+    for (const [key, value] of Object.entries(imu)) {
+      if (!(key in DEFAULT_IMU_CONFIG)) fail(`${where}: unknown setting "${key}"`);
+      if (typeof value !== typeof DEFAULT_IMU_CONFIG[key as keyof typeof DEFAULT_IMU_CONFIG]) {
+        fail(`${where}.${key} must be a ${typeof DEFAULT_IMU_CONFIG[key as keyof typeof DEFAULT_IMU_CONFIG]}`);
+      }
+    }
+  };
+  checkImu(scenario.imu, '"imu"');
+  const checkRangeSensors = (sensors: unknown, where: string) => {
+    if (sensors === undefined || Array.isArray(sensors)) return;  // lists are checked by the engine
+    if (!RANGE_SENSOR_PRESETS.some(({ id }) => id === sensors)) {
+      fail(`${where} must be a list or one of ${RANGE_SENSOR_PRESETS.map(({ id }) => id).join(', ')}`);
+    }
+  };
+  checkRangeSensors(scenario.range_sensors, '"range_sensors"');
+  const checkLineSensors = (sensors: unknown, where: string) => {
+    if (sensors === undefined) return;
+    if (isRecord(sensors)) {
+      for (const [key, value] of Object.entries(sensors)) {
+        if (!(key in DEFAULT_LINE_SENSOR_CONFIG)) fail(`${where}: unknown setting "${key}"`);
+        if (typeof value !== 'number') fail(`${where}.${key} must be a number`);
+      }
+    } else if (!LINE_SENSOR_PRESETS.some(({ id }) => id === sensors)) {
+      fail(`${where} must be a mapping or one of ${LINE_SENSOR_PRESETS.map(({ id }) => id).join(', ')}`);
+    }
+  };
+  checkLineSensors(scenario.line_sensors, '"line_sensors"');
+  const checkLightGate = (gate: unknown, where: string) => {
+    if (gate === undefined) return;
+    if (!isRecord(gate)) fail(`${where} must be a mapping`);
+    for (const [key, value] of Object.entries(gate)) {
+      if (!(key in DEFAULT_LIGHT_GATE_CONFIG)) fail(`${where}: unknown setting "${key}"`);
+      if (typeof value !== 'number') fail(`${where}.${key} must be a number`);
+    }
+  };
+  checkLightGate(scenario.light_gate, '"light_gate"');
+  const checkKicker = (kicker: unknown, where: string) => {
+    if (kicker === undefined) return;
+    if (isRecord(kicker)) {
+      for (const [key, value] of Object.entries(kicker)) {
+        if (!(key in DEFAULT_KICKER_CONFIG)) fail(`${where}: unknown setting "${key}"`);
+        if (typeof value !== 'number') fail(`${where}.${key} must be a number`);
+      }
+    } else if (!KICKER_PRESETS.some(({ id }) => id === kicker)) {
+      fail(`${where} must be a mapping or one of ${KICKER_PRESETS.map(({ id }) => id).join(', ')}`);
+    }
+  };
+  checkKicker(scenario.kicker, '"kicker"');
+  const checkDrive = (drive: unknown, where: string) => {
+    if (drive === undefined) return;
+    if (isRecord(drive)) {
+      for (const [key, value] of Object.entries(drive)) {
+        if (!(key in DEFAULT_DRIVE_CONFIG)) fail(`${where}: unknown setting "${key}"`);
+        if (key === 'wheels') continue;  // checked by the engine
+        if (key === 'model') {
+          if (value !== 'kinematic' && value !== 'dynamic') fail(`${where}.model must be kinematic or dynamic`);
+        } else if (typeof value !== 'number') {
+          fail(`${where}.${key} must be a number`);
+        }
+      }
+    } else if (!DRIVE_PRESETS.some(({ id }) => id === drive)) {
+      fail(`${where} must be a mapping or one of ${DRIVE_PRESETS.map(({ id }) => id).join(', ')}`);
+    }
+  };
+  checkDrive(scenario.drive, '"drive"');
+  if (scenario.sensor_noise !== undefined && !SENSOR_NOISE_PRESETS.some(({ id }) => id === scenario.sensor_noise)) {
+    fail(`"sensor_noise" must be one of ${SENSOR_NOISE_PRESETS.map(({ id }) => id).join(', ')}`);
+  }
+  if (scenario.roster !== undefined && !isList(scenario.roster)) fail('"roster" must be a list');
+  for (const [i, robot] of (scenario.roster ?? []).entries()) {
+    if (
+      !isRecord(robot) ||
+      typeof robot.id !== 'string' ||
+      (robot.team !== 'blue' && robot.team !== 'yellow') ||
+      (robot.role !== 'attacker' && robot.role !== 'defender') ||
+      !Number.isFinite(robot.x) ||
+      !Number.isFinite(robot.y)
+    ) {
+      fail(`roster[${i}] needs id, team (blue/yellow), role (attacker/defender) and numeric x and y`);
+    }
+    for (const key of ['control_hz', 'camera_hz'] as const) {
+      const hz = robot[key];
+      if (hz !== undefined && !(typeof hz === 'number' && hz > 0)) {
+        fail(`roster[${i}].${key} must be a positive number`);
+      }
+    }
+    checkSensorLatency(robot.sensor_latency, `roster[${i}].sensor_latency`);
+    checkImu(robot.imu, `roster[${i}].imu`);
+    checkRangeSensors(robot.range_sensors, `roster[${i}].range_sensors`);
+    checkLineSensors(robot.line_sensors, `roster[${i}].line_sensors`);
+    checkLightGate(robot.light_gate, `roster[${i}].light_gate`);
+    checkKicker(robot.kicker, `roster[${i}].kicker`);
+    checkDrive(robot.drive, `roster[${i}].drive`);
+  }
+  if (scenario.robots !== undefined && !isRecord(scenario.robots)) fail('"robots" must be a mapping');
+  for (const [id, pose] of Object.entries(scenario.robots ?? {})) {
+    if (!isRecord(pose) || !Number.isFinite(pose.x) || !Number.isFinite(pose.y)) {
+      fail(`robots.${id} needs numeric x and y`);
+    }
+  }
+  const ball = scenario.ball;
+  if (ball !== undefined && (!isRecord(ball) || !Number.isFinite(ball.x) || !Number.isFinite(ball.y))) {
+    fail('ball needs numeric x and y');
+  }
+  if (isRecord(ball) && ball.path !== undefined) {
+    if (!isList(ball.path)) fail('ball.path must be a list');
+    let lastT = 0;
+    for (const [i, point] of ball.path.entries()) {
+      if (
+        !isRecord(point) ||
+        !Number.isFinite(point.x) ||
+        !Number.isFinite(point.y) ||
+        !(typeof point.t_s === 'number' && point.t_s > lastT)
+      ) {
+        fail(`ball.path[${i}] needs numeric x and y and t_s after the previous point`);
+      }
+      lastT = point.t_s;
+    }
+  }
+  if (scenario.inject !== undefined && !isList(scenario.inject)) fail('"inject" must be a list');
+  for (const [i, injection] of (scenario.inject ?? []).entries()) {
+    if (!isRecord(injection) || !isRecord(injection.set)) fail(`inject[${i}] needs a "set" object`);
+  }
+
+  if (!isList(scenario.assertions) || scenario.assertions.length === 0) {
+    fail('"assertions" must be a non-empty list');
+  }
+  for (const [i, assertion] of scenario.assertions.entries()) {
+    if (!isRecord(assertion) || typeof assertion.type !== 'string' || !ASSERTION_TYPES.includes(assertion.type)) {
+      fail(`assertions[${i}]: unknown type (expected one of ${ASSERTION_TYPES.join(', ')})`);
+    }
+    const needs = (key: string, check: (v: unknown) => boolean) => {
+      if (!check(assertion[key])) fail(`assertions[${i}] (${assertion.type}): invalid or missing "${key}"`);
+    };
+    const isTeam = (v: unknown) => v === 'blue' || v === 'yellow';
+    const isString = (v: unknown) => typeof v === 'string';
+    const isNumber = (v: unknown) => Number.isFinite(v);
+
+    switch (assertion.type) {
+      case 'ball_in_goal':
+      case 'no_goal':
+        needs('goal', isTeam);
+        break;
+      case 'no_own_goal':
+        if (assertion.team !== undefined) needs('team', isTeam);
+        break;
+      case 'stays_in_half':
+        needs('robot', isString);
+        break;
+      case 'reaches_ball':
+        needs('robot', isString);
+        needs('distance_cm', isNumber);
+        break;
+      case 'state_time':
+        needs('robot', isString);
+        needs('states', (v) => Array.isArray(v) && v.every(isString));
+        if (assertion.min_fraction === undefined && assertion.max_fraction === undefined) {
+          fail(`assertions[${i}] (state_time): needs min_fraction and/or max_fraction`);
+        }
+        break;
+      case 'boundary_time':
+        needs('robot', isString);
+        needs('margin_cm', isNumber);
+        needs('max_fraction', isNumber);
+        break;
+      case 'zone_time':
+        needs('robot', isString);
+        needs('half_width_cm', isNumber);
+        needs('half_height_cm', isNumber);
+        if (assertion.min_fraction === undefined && assertion.max_fraction === undefined) {
+          fail(`assertions[${i}] (zone_time): needs min_fraction and/or max_fraction`);
+        }
+        break;
+      case 'kicks':
+      case 'motor_speed':
+        needs('robot', isString);
+        needs('min', isNumber);
+        break;
+      case 'strafes':
+        needs('robot', isString);
+        break;
+      case 'ball_orbits':
+      case 'direction_flips':
+        needs('robot', isString);
+        needs('distance_cm', isNumber);
+        needs('max', isNumber);
+        break;
+      case 'ball_speed':
+        needs('max_cm_s', isNumber);
+        break;
+    }
+  }
+
+  // Every field the Scenario type requires was checked above
+  return scenario as unknown as Scenario;
+}
+
+// Range sensors of a preset id or list
+function getRangeSensors(sensors: ScenarioRangeSensors): RangeSensorConfig[] {
+  return typeof sensors === 'string'
+    ? RANGE_SENSOR_PRESETS.find(({ id }) => id === sensors)?.sensors ?? []
+    : sensors;
+}
+
+// Line sensor ring of a preset id or overrides
+function getLineSensors(sensors: ScenarioLineSensors): Partial<LineSensorConfig> {
+  return typeof sensors === 'string'
+    ? LINE_SENSOR_PRESETS.find(({ id }) => id === sensors)?.config ?? {}
+    : sensors;
+}
+
+// Kicker of a preset id or overrides
+function getKicker(kicker: ScenarioKicker): Partial<KickerConfig> {
+  return typeof kicker === 'string'
+    ? KICKER_PRESETS.find(({ id }) => id === kicker)?.config ?? {}
+    : kicker;
+}
+
+// Drive of a preset id or overrides
+function getDrive(drive: ScenarioDrive): Partial<DriveConfig> {
+  return typeof drive === 'string'
+    ? DRIVE_PRESETS.find(({ id }) => id === drive)?.config ?? {}
+    : drive;
+}
+
+// Robots of a scenario without strategies: its roster, or the default roster of its mode
+export function getScenarioRoster(scenario: Scenario): RosterRobot[] {
+  if (!scenario.roster) {
+    return createDefaultRoster(scenario.mode);
+  }
+  return scenario.roster.map(({
+    id, team, role, x, y, heading_deg, control_hz, camera_hz, sensor_latency, imu, range_sensors, line_sensors, light_gate, kicker,
+    drive,
+  }) => ({
+    id,
+    team,
+    role,
+    start: { x, y, angle: ((heading_deg ?? (team === 'blue' ? 90 : -90)) * Math.PI) / 180 },
+    ...(control_hz !== undefined && { controlHz: control_hz }),
+    ...(camera_hz !== undefined && { cameraHz: camera_hz }),
+    ...(sensor_latency !== undefined && { sensorLatency: sensor_latency }),
+    ...(imu !== undefined && { imu }),
+    ...(range_sensors !== undefined && { rangeSensors: getRangeSensors(range_sensors) }),
+    ...(line_sensors !== undefined && { lineSensors: getLineSensors(line_sensors) }),
+    ...(light_gate !== undefined && { lightGate: light_gate }),
+    ...(kicker !== undefined && { kicker: getKicker(kicker) }),
+    ...(drive !== undefined && { drive: getDrive(drive) }),
+  }));
+}
+
+// Run a scenario headlessly. config supplies the strategies, usually as a roster from
+// getScenarioRoster() (and optionally the timestep); mode and seed come from the scenario.
+export function runScenario(
+  scenario: Scenario,
+  config: Omit<SimulationConfig, 'mode'> = {},
+  engine: SimulationEngine = new SimulationEngine()
+): ScenarioResult {
+  engine.setDebugLogging(false);
+  engine.initialize({
+    ...config,
+    mode: scenario.mode,
+    seed: scenario.seed ?? config.seed ?? 1,
+    rules: scenario.rules ?? config.rules,
+    comms: scenario.comms ?? config.comms,
+    sensorLatency: scenario.sensor_latency ?? config.sensorLatency,
+    imu: scenario.imu ?? config.imu,
+    rangeSensors: scenario.range_sensors !== undefined ? getRangeSensors(scenario.range_sensors) : config.rangeSensors,
+    lineSensors: scenario.line_sensors !== undefined ? getLineSensors(scenario.line_sensors) : config.lineSensors,
+    lightGate: scenario.light_gate ?? config.lightGate,
+    kicker: scenario.kicker !== undefined ? getKicker(scenario.kicker) : config.kicker,
+    drive: scenario.drive !== undefined ? getDrive(scenario.drive) : config.drive,
+    sensorNoise: SENSOR_NOISE_PRESETS.find(({ id }) => id === scenario.sensor_noise)?.profile ?? config.sensorNoise,
+  });
+  engine.setPerceptionMode(scenario.perception ?? 'physics');
+
+  const robotIds = engine.getSimulationState().robots.map((r) => r.id);
+  const requireRobot = (id: string) => {
+    if (!robotIds.includes(id)) {
+      throw new Error(`Scenario "${scenario.name}": no robot "${id}" in ${scenario.mode} mode`);
+    }
+  };
+
+  for (const [id, pose] of Object.entries(scenario.robots ?? {})) {
+    requireRobot(id);
+    const angle = pose.heading_deg === undefined ? undefined : (pose.heading_deg * Math.PI) / 180;
+    engine.setRobotPosition(id, pose.x, pose.y, angle);
+  }
+  if (scenario.ball) {
+    engine.setBallPosition(scenario.ball.x, scenario.ball.y);
+  }
+  for (const assertion of scenario.assertions) {
+    if ('robot' in assertion) requireRobot(assertion.robot);
+  }
+
+  const stepS = engine.getFixedStepMs() / 1000;
+  let step = 0;
+  const now = () => step * stepS;
+  const checks = scenario.assertions.map(createCheck);
+  // Decided checks stop receiving callbacks so a later window expiry cannot overturn them
+  const pending = () => checks.filter((c) => c.status === 'pending');
+
+  engine.setSensorOverride((id, worldState) => {
+    for (const injection of scenario.inject ?? []) {
+      if (injectionActive(injection, id, now())) applyInjection(worldState, injection.set);
+    }
+  });
+  engine.setOnRobotFrame((id, frame) => {
+    for (const check of pending()) check.onRobotFrame?.(id, frame, now());
+  });
+  const unsubscribeGoal = engine.getEventBus().on('goal', (event) => {
+    const goal: ScenarioGoal = { scoringTeam: event.team, ownGoal: event.own_goal };
+    for (const check of pending()) check.onGoal?.(goal, now());
+  });
+
+  if (!scenario.kickoff) {
+    engine.startPlay();
+  }
+  // Ball velocity is applied last: starting play must not disturb it
+  if (scenario.ball && (scenario.ball.vx || scenario.ball.vy)) {
+    engine.setBallVelocity(scenario.ball.vx ?? 0, scenario.ball.vy ?? 0);
+  }
+
+  const maxSteps = Math.ceil(scenario.time_limit_s / stepS);
+  let ballAt = scenario.ball ? { x: scenario.ball.x, y: scenario.ball.y } : null;
+  try {
+    while (step < maxSteps) {
+      const target = scenario.ball && ballAt && pathPoint(scenario.ball, now() + stepS);
+      if (target && ballAt) {
+        // Velocity that lands the ball on its path by the end of the step
+        engine.setBallVelocity((target.x - ballAt.x) / stepS, (target.y - ballAt.y) / stepS);
+      }
+      const state = engine.stepFixed(1);
+      ballAt = state.ball;
+      step++;
+      if (state.game.phase === GamePhase.Playing) {
+        for (const check of pending()) check.onTick?.(state, now());
+      }
+      if (checks.every((c) => c.status !== 'pending') || state.game.phase === GamePhase.Finished) break;
+    }
+  } finally {
+    engine.setSensorOverride(null);
+    engine.setOnRobotFrame(null);
+    unsubscribeGoal();
+  }
+
+  for (const check of checks) {
+    if (check.status === 'pending') check.finish(now());
+  }
+
+  return {
+    name: scenario.name,
+    passed: checks.every((c) => c.status === 'passed'),
+    seed: engine.getSeed(),
+    simulatedS: now(),
+    assertions: checks.map((c) => ({ description: c.description, passed: c.status === 'passed', detail: c.detail })),
+  };
+}
+
+// Position of a ball on its path at t, or null once released after the last waypoint.
+// The ball is steered back onto the path every step, so robots can bump it but not move it away.
+function pathPoint(ball: ScenarioBall, t: number): { x: number; y: number } | null {
+  let from = { t_s: 0, x: ball.x, y: ball.y };
+  for (const to of ball.path ?? []) {
+    if (t <= to.t_s) {
+      const f = (t - from.t_s) / (to.t_s - from.t_s);
+      return { x: from.x + (to.x - from.x) * f, y: from.y + (to.y - from.y) * f };
+    }
+    from = to;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Assertion checks
+
+type ScenarioGoal = { scoringTeam: Team; ownGoal: boolean };
+
+interface ScenarioCheck {
+  description: string;
+  status: 'pending' | 'passed' | 'failed';
+  detail: string;
+  onTick?(state: SimulationState, t: number): void;
+  onRobotFrame?(robotId: string, frame: ReplayRobotFrame, t: number): void;
+  onGoal?(goal: ScenarioGoal, t: number): void;
+  finish(t: number): void;  // resolve a still-pending check at the end of the run
+}
+
+function createCheck(assertion: ScenarioAssertion): ScenarioCheck {
+  switch (assertion.type) {
+    case 'ball_in_goal':
+      return ballInGoalCheck(assertion.goal, assertion.within_s);
+    case 'no_goal':
+      return goalCheck(`ball never enters ${assertion.goal} goal`, (goal) =>
+        goal.scoringTeam !== assertion.goal ? `ball entered ${assertion.goal} goal` : null
+      );
+    case 'no_own_goal':
+      return goalCheck(`no own goal${assertion.team ? ` by ${assertion.team}` : ''}`, (goal) => {
+        const concedingTeam = otherTeam(goal.scoringTeam);
+        return goal.ownGoal && (!assertion.team || assertion.team === concedingTeam)
+          ? `own goal by ${concedingTeam}`
+          : null;
+      });
+    case 'stays_in_half':
+      return staysInHalfCheck(assertion.robot, assertion.half ?? 'own', assertion.margin_cm ?? 0);
+    case 'reaches_ball':
+      return reachesBallCheck(assertion.robot, assertion.distance_cm, assertion.within_s);
+    case 'state_time':
+      return stateTimeCheck(assertion);
+    case 'boundary_time':
+      return boundaryTimeCheck(assertion.robot, assertion.margin_cm, assertion.max_fraction);
+    case 'zone_time':
+      return zoneTimeCheck(assertion);
+    case 'kicks':
+      return kicksCheck(assertion.robot, assertion.min, assertion.within_s);
+    case 'motor_speed':
+      return everyFrameCheck(
+        assertion,
+        `${assertion.robot} drives a motor above ${formatPercent(assertion.min)} every tick`,
+        (action) => Math.max(...motorCommands(action).map(Math.abs)) > assertion.min
+      );
+    case 'strafes':
+      // The omniMix strafe signature: the strafe term pushes motor1 and motor2 opposite ways
+      return everyFrameCheck(
+        assertion,
+        `${assertion.robot} strafes (motor1 and motor2 opposite) every tick`,
+        (action) => Math.sign(action.motor1) !== Math.sign(action.motor2)
+      );
+    case 'ball_orbits':
+      return ballOrbitsCheck(assertion.robot, assertion.distance_cm, assertion.max);
+    case 'direction_flips':
+      return directionFlipsCheck(assertion.robot, assertion.distance_cm, assertion.max);
+    case 'ball_speed':
+      return ballSpeedCheck(assertion);
+  }
+}
+
+// Goals are credited to the scoring team, which attacks the other team's goal
+function ballInGoalCheck(goalTeam: Team, withinS: number = Number.POSITIVE_INFINITY): ScenarioCheck {
+  const check: ScenarioCheck = {
+    description: `ball enters ${goalTeam} goal${Number.isFinite(withinS) ? ` within ${withinS}s` : ''}`,
+    status: 'pending',
+    detail: '',
+    onGoal(goal, t) {
+      if (goal.scoringTeam === goalTeam || check.status !== 'pending') return;
+      check.status = t <= withinS ? 'passed' : 'failed';
+      check.detail = `goal after ${t.toFixed(2)}s`;
+    },
+    onTick(_state, t) {
+      if (t > withinS) check.finish(t);
+    },
+    finish(t) {
+      check.status = 'failed';
+      check.detail = `no goal after ${t.toFixed(2)}s`;
+    },
+  };
+  return check;
+}
+
+// Fails on the first goal that violates; passes if none happened
+function goalCheck(description: string, violation: (goal: ScenarioGoal) => string | null): ScenarioCheck {
+  const check: ScenarioCheck = {
+    description,
+    status: 'pending',
+    detail: '',
+    onGoal(goal, t) {
+      const reason = violation(goal);
+      if (reason && check.status === 'pending') {
+        check.status = 'failed';
+        check.detail = `${reason} after ${t.toFixed(2)}s`;
+      }
+    },
+    finish() {
+      check.status = 'passed';
+    },
+  };
+  return check;
+}
+
+function staysInHalfCheck(robotId: string, half: 'own' | 'opponent', marginCm: number): ScenarioCheck {
+  const check: ScenarioCheck = {
+    description: `${robotId} never leaves ${half} half`,
+    status: 'pending',
+    detail: '',
+    onTick(state, t) {
+      const robot = state.robots.find((r) => r.id === robotId);
+      if (!robot || robot.penalized) return;
+      // Blue defends the negative Y half
+      const ownSign = robot.team === 'blue' ? -1 : 1;
+      const sign = half === 'own' ? ownSign : -ownSign;
+      if (robot.y * sign < -marginCm) {
+        check.status = 'failed';
+        check.detail = `left at ${t.toFixed(2)}s (x=${robot.x.toFixed(1)}, y=${robot.y.toFixed(1)})`;
+      }
+    },
+    finish() {
+      check.status = 'passed';
+    },
+  };
+  return check;
+}
+
+// Distance is measured between robot and ball centers
+function reachesBallCheck(robotId: string, distanceCm: number, withinS: number = Number.POSITIVE_INFINITY): ScenarioCheck {
+  let closest = Number.POSITIVE_INFINITY;
+  const check: ScenarioCheck = {
+    description: `${robotId} gets within ${distanceCm}cm of ball${Number.isFinite(withinS) ? ` within ${withinS}s` : ''}`,
+    status: 'pending',
+    detail: '',
+    onTick(state, t) {
+      if (t > withinS) {
+        check.finish(t);
+        return;
+      }
+      const robot = state.robots.find((r) => r.id === robotId);
+      if (!robot || robot.penalized) return;
+      const distance = Math.hypot(state.ball.x - robot.x, state.ball.y - robot.y);
+      closest = Math.min(closest, distance);
+      if (distance <= distanceCm) {
+        check.status = 'passed';
+        check.detail = `reached after ${t.toFixed(2)}s`;
+      }
+    },
+    finish() {
+      check.status = 'failed';
+      check.detail = `closest ${closest.toFixed(1)}cm`;
+    },
+  };
+  return check;
+}
+
+function stateTimeCheck(assertion: Extract<ScenarioAssertion, { type: 'state_time' }>): ScenarioCheck {
+  const { robot: robotId, states, min_fraction: min, max_fraction: max } = assertion;
+  const fromS = assertion.from_s ?? 0;
+  const toS = assertion.to_s ?? Number.POSITIVE_INFINITY;
+  let frames = 0;
+  let matching = 0;
+
+  const bounds = [min !== undefined ? `>= ${formatPercent(min)}` : '', max !== undefined ? `<= ${formatPercent(max)}` : '']
+    .filter(Boolean)
+    .join(' and ');
+  const window = fromS > 0 || Number.isFinite(toS) ? ` between ${fromS}s and ${Number.isFinite(toS) ? `${toS}s` : 'end'}` : '';
+
+  const check: ScenarioCheck = {
+    description: `${robotId} in ${states.join('/')} ${bounds} of the time${window}`,
+    status: 'pending',
+    detail: '',
+    onRobotFrame(id, frame, t) {
+      if (id !== robotId || t < fromS || t > toS) return;
+      frames++;
+      if (frame.state !== null && states.includes(frame.state)) matching++;
+    },
+    onTick(_state, t) {
+      if (t > toS) check.finish(t);
+    },
+    finish() {
+      if (frames === 0) {
+        check.status = 'failed';
+        check.detail = 'strategy never ran in the time window';
+        return;
+      }
+      const fraction = matching / frames;
+      const ok = (min === undefined || fraction >= min) && (max === undefined || fraction <= max);
+      check.status = ok ? 'passed' : 'failed';
+      check.detail = `${formatPercent(fraction)} of ${frames} ticks`;
+    },
+  };
+  return check;
+}
+
+// Time with the robot center within margin of the field lines (or beyond them)
+function boundaryTimeCheck(robotId: string, marginCm: number, maxFraction: number): ScenarioCheck {
+  let ticks = 0;
+  let nearBoundary = 0;
+  const check: ScenarioCheck = {
+    description: `${robotId} within ${marginCm}cm of field lines <= ${formatPercent(maxFraction)} of the time`,
+    status: 'pending',
+    detail: '',
+    onTick(state) {
+      const robot = state.robots.find((r) => r.id === robotId);
+      if (!robot || robot.penalized) return;
+      ticks++;
+      if (Math.abs(robot.x) > FIELD.WIDTH / 2 - marginCm || Math.abs(robot.y) > FIELD.HEIGHT / 2 - marginCm) {
+        nearBoundary++;
+      }
+    },
+    finish() {
+      const fraction = ticks > 0 ? nearBoundary / ticks : 0;
+      check.status = fraction <= maxFraction ? 'passed' : 'failed';
+      check.detail = `${formatPercent(fraction)} of ${ticks} ticks`;
+    },
+  };
+  return check;
+}
+
+// Time with the robot center inside a zone around the field center
+function zoneTimeCheck(assertion: Extract<ScenarioAssertion, { type: 'zone_time' }>): ScenarioCheck {
+  const { robot: robotId, half_width_cm: halfWidth, half_height_cm: halfHeight, min_fraction: min, max_fraction: max } =
+    assertion;
+  let ticks = 0;
+  let inside = 0;
+
+  const bounds = [min !== undefined ? `>= ${formatPercent(min)}` : '', max !== undefined ? `<= ${formatPercent(max)}` : '']
+    .filter(Boolean)
+    .join(' and ');
+
+  const check: ScenarioCheck = {
+    description: `${robotId} within |x| <= ${halfWidth}cm, |y| <= ${halfHeight}cm ${bounds} of the time`,
+    status: 'pending',
+    detail: '',
+    onTick(state) {
+      const robot = state.robots.find((r) => r.id === robotId);
+      if (!robot || robot.penalized) return;
+      ticks++;
+      if (Math.abs(robot.x) <= halfWidth && Math.abs(robot.y) <= halfHeight) inside++;
+    },
+    finish() {
+      const fraction = ticks > 0 ? inside / ticks : 0;
+      const ok = (min === undefined || fraction >= min) && (max === undefined || fraction <= max);
+      check.status = ok ? 'passed' : 'failed';
+      check.detail = `${formatPercent(fraction)} of ${ticks} ticks`;
+    },
+  };
+  return check;
+}
+
+// Kick attempts (Action.kick), whether or not the ball was in range
+function kicksCheck(robotId: string, min: number, withinS: number = Number.POSITIVE_INFINITY): ScenarioCheck {
+  let kicks = 0;
+  const check: ScenarioCheck = {
+    description: `${robotId} kicks at least ${min} time(s)${Number.isFinite(withinS) ? ` within ${withinS}s` : ''}`,
+    status: 'pending',
+    detail: '',
+    onRobotFrame(id, frame, t) {
+      if (id !== robotId || t > withinS || !frame.action.kick) return;
+      kicks++;
+      if (kicks >= min) {
+        check.status = 'passed';
+        check.detail = `${kicks} kick(s) by ${t.toFixed(2)}s`;
+      }
+    },
+    onTick(_state, t) {
+      if (t > withinS) check.finish(t);
+    },
+    finish() {
+      check.status = 'failed';
+      check.detail = `${kicks} kick(s)`;
+    },
+  };
+  return check;
+}
+
+// Every strategy tick in the time window must satisfy ok
+function everyFrameCheck(
+  assertion: { robot: string; from_s?: number; to_s?: number },
+  description: string,
+  ok: (action: ReplayRobotFrame['action']) => boolean
+): ScenarioCheck {
+  const fromS = assertion.from_s ?? 0;
+  const toS = assertion.to_s ?? Number.POSITIVE_INFINITY;
+  let frames = 0;
+  const window = fromS > 0 || Number.isFinite(toS) ? ` between ${fromS}s and ${Number.isFinite(toS) ? `${toS}s` : 'end'}` : '';
+
+  const check: ScenarioCheck = {
+    description: `${description}${window}`,
+    status: 'pending',
+    detail: '',
+    onRobotFrame(id, frame, t) {
+      if (id !== assertion.robot || t < fromS || t > toS) return;
+      frames++;
+      if (!ok(frame.action)) {
+        check.status = 'failed';
+        check.detail = `not at ${t.toFixed(2)}s (${motorCommands(frame.action).map((m) => m.toFixed(2)).join(', ')})`;
+      }
+    },
+    onTick(_state, t) {
+      if (t > toS) check.finish(t);
+    },
+    finish() {
+      check.status = frames > 0 ? 'passed' : 'failed';
+      check.detail = frames > 0 ? `${frames} ticks` : 'strategy never ran in the time window';
+    },
+  };
+  return check;
+}
+
+// Times the ball changes sides of the robot (from more than 10 deg left to more than 10 deg
+// right or back) while it is within distanceCm: circling or overshooting instead of driving in
+function ballOrbitsCheck(robotId: string, distanceCm: number, max: number): ScenarioCheck {
+  let previousAngle: number | null = null;
+  let orbits = 0;
+  const check: ScenarioCheck = {
+    description: `ball changes sides of ${robotId} at most ${max} time(s) within ${distanceCm}cm`,
+    status: 'pending',
+    detail: '',
+    onTick(state) {
+      const robot = state.robots.find((r) => r.id === robotId);
+      if (!robot || robot.penalized) return;
+      const dx = state.ball.x - robot.x;
+      const dy = state.ball.y - robot.y;
+      const angle = normalizeDeg(((Math.atan2(dy, dx) - robot.angle) * 180) / Math.PI);
+      if (
+        Math.hypot(dx, dy) < distanceCm &&
+        previousAngle !== null &&
+        Math.sign(angle) !== Math.sign(previousAngle) &&
+        Math.abs(angle) > 10 &&
+        Math.abs(previousAngle) > 10
+      ) {
+        orbits++;
+      }
+      previousAngle = angle;
+    },
+    finish() {
+      check.status = orbits <= max ? 'passed' : 'failed';
+      check.detail = `${orbits} time(s)`;
+    },
+  };
+  return check;
+}
+
+// Sign changes of the forward command (the mean of the motors) while the robot is within
+// distanceCm of the ball: dithering forward and back instead of committing
+function directionFlipsCheck(robotId: string, distanceCm: number, max: number): ScenarioCheck {
+  let distance = Number.POSITIVE_INFINITY;
+  let previousSign = 0;
+  let flips = 0;
+  const check: ScenarioCheck = {
+    description: `${robotId} reverses direction at most ${max} time(s) within ${distanceCm}cm of ball`,
+    status: 'pending',
+    detail: '',
+    onTick(state) {
+      const robot = state.robots.find((r) => r.id === robotId);
+      if (robot) distance = Math.hypot(state.ball.x - robot.x, state.ball.y - robot.y);
+    },
+    onRobotFrame(id, frame) {
+      if (id !== robotId || distance >= distanceCm) return;
+      const motors = motorCommands(frame.action);
+      const sign = Math.sign(motors.reduce((sum, m) => sum + m, 0));
+      if (previousSign !== 0 && sign !== 0 && sign !== previousSign) flips++;
+      if (sign !== 0) previousSign = sign;
+    },
+    finish() {
+      check.status = flips <= max ? 'passed' : 'failed';
+      check.detail = `${flips} time(s)`;
+    },
+  };
+  return check;
+}
+
+// Top ball speed in the time window: weak kicks and pushes stay below max_cm_s
+function ballSpeedCheck(assertion: Extract<ScenarioAssertion, { type: 'ball_speed' }>): ScenarioCheck {
+  const fromS = assertion.from_s ?? 0;
+  const toS = assertion.to_s ?? Number.POSITIVE_INFINITY;
+  // Ball velocity is in cm per physics step
+  const stepsPerSecond = 1000 / TIMING.PHYSICS_STEP;
+  let top = 0;
+  let topAtS = 0;
+  const window = fromS > 0 || Number.isFinite(toS) ? ` between ${fromS}s and ${Number.isFinite(toS) ? `${toS}s` : 'end'}` : '';
+
+  const check: ScenarioCheck = {
+    description: `ball stays below ${assertion.max_cm_s}cm/s${window}`,
+    status: 'pending',
+    detail: '',
+    onTick(state, t) {
+      if (t > toS) {
+        check.finish(t);
+        return;
+      }
+      if (t < fromS) return;
+      const speed = Math.hypot(state.ball.vx, state.ball.vy) * stepsPerSecond;
+      if (speed > top) {
+        top = speed;
+        topAtS = t;
+      }
+    },
+    finish() {
+      check.status = top < assertion.max_cm_s ? 'passed' : 'failed';
+      check.detail = `top ${top.toFixed(1)}cm/s at ${topAtS.toFixed(2)}s`;
+    },
+  };
+  return check;
+}
+
+function motorCommands(action: ReplayRobotFrame['action']): number[] {
+  return [action.motor1, action.motor2, action.motor3, action.motor4];
+}
+
+// ---------------------------------------------------------------------------
+// Sensor injection
+
+function injectionActive(injection: ScenarioInjection, robotId: string, t: number): boolean {
+  if (injection.robot !== undefined && injection.robot !== robotId) return false;
+  const fromS = injection.from_s ?? 0;
+  if (t < fromS || t > (injection.to_s ?? Number.POSITIVE_INFINITY)) return false;
+  if (injection.every_s === undefined) return true;
+  return (t - fromS) % injection.every_s < (injection.for_s ?? 0.1);
+}
+
+function applyInjection(worldState: WorldState, values: Record<string, unknown>): void {
+  for (const [path, value] of Object.entries(values)) {
+    const keys = path.split('.');
+    let target: any = worldState;
+    for (const key of keys.slice(0, -1)) {
+      target = target?.[key];
+    }
+    if (isRecord(target)) {
+      target[keys[keys.length - 1]] = value;
+    }
+  }
+}
+
+function normalizeDeg(deg: number): number {
+  return ((((deg + 180) % 360) + 360) % 360) - 180;
+}
+
+function formatPercent(fraction: number): string {
+  return `${Math.round(fraction * 1000) / 10}%`;
+}
+
+function otherTeam(team: Team): Team {
+  return team === 'blue' ? 'yellow' : 'blue';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isList(value: unknown): value is unknown[] {
+  return Array.isArray(value);
+}
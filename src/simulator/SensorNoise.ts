@@ -0,0 +1,120 @@
+// ============================================================
+// RoboCup Jr. Simulator - Sensor Noise
+// ============================================================
+
+import { CameraNoiseConfig, LineSensorConfig, Observation, SensorNoiseProfile, WorldState } from '../types';
+import { FIELD, SURFACE_REFLECTANCE } from '../types/constants';
+import { deriveLineFlags } from './LineSensors';
+import { SeededRandom } from './Random';
+
+// Camera detections stay this reliable at best; the expected error lowers it from there
+const MAX_NOISY_CONFIDENCE = 0.95;
+
+// Angle error (deg) that halves a detection's confidence
+const CONFIDENCE_ANGLE_SCALE_DEG = 10;
+
+// Whether a profile changes any reading (an ideal profile draws no random numbers)
+export function isNoiseFree(profile: SensorNoiseProfile): boolean {
+  return [profile.camera, profile.imu, profile.line].every((config) =>
+    Object.entries(config).every(([key, value]) => key === 'edgeMarginCm' || value === 0)
+  );
+}
+
+// Add a profile's errors to one robot's readings. cameraNoise is false when the observations
+// come from the camera pipeline, which has errors of its own; ball is the true ball position;
+// lineSensors is the robot's ring, whose line_* flags are derived again from the noisy readings.
+export function applySensorNoise(
+  worldState: WorldState,
+  profile: SensorNoiseProfile,
+  rng: SeededRandom,
+  cameraNoise: boolean,
+  ball: { x: number; y: number },
+  lineSensors: LineSensorConfig
+): void {
+  if (isNoiseFree(profile)) return;
+
+  if (cameraNoise) {
+    const { camera } = profile;
+    const nearEdge =
+      Math.abs(ball.x) > FIELD.TOTAL_WIDTH / 2 - camera.edgeMarginCm ||
+      Math.abs(ball.y) > FIELD.TOTAL_HEIGHT / 2 - camera.edgeMarginCm;
+    worldState.ball = noisyObservation(worldState.ball, camera, rng, nearEdge ? camera.edgeDropoutRate : 0);
+    if (rng.chance(camera.falsePositiveRate)) {
+      worldState.ball = phantomObservation(rng);
+    }
+    worldState.goal_blue = noisyObservation(worldState.goal_blue, camera, rng, 0);
+    worldState.goal_yellow = noisyObservation(worldState.goal_yellow, camera, rng, 0);
+  }
+
+  const { imu, line } = profile;
+  worldState.heading_deg = (((worldState.heading_deg + rng.gaussian(0, imu.headingStdDeg)) % 360) + 360) % 360;
+  worldState.v_est = Math.max(0, worldState.v_est * (1 + rng.gaussian(0, imu.speedStdFraction)));
+
+  // A missed line reads as carpet, a false positive as a line
+  worldState.line_reflectance = worldState.line_reflectance.map((value) => {
+    if (value >= lineSensors.threshold) return rng.chance(line.missRate) ? SURFACE_REFLECTANCE.CARPET : value;
+    return rng.chance(line.falsePositiveRate) ? SURFACE_REFLECTANCE.LINE : value;
+  });
+  Object.assign(worldState, deriveLineFlags(worldState.line_reflectance, lineSensors));
+}
+
+// A detection with angle and distance errors, or a miss. Its confidence falls with the expected
+// error and varies from frame to frame, so a strategy can't read the exact distance from it.
+function noisyObservation(
+  observation: Observation,
+  camera: CameraNoiseConfig,
+  rng: SeededRandom,
+  extraDropoutRate: number
+): Observation {
+  if (!observation.visible) return observation;
+  if (rng.chance(camera.dropoutRate) || rng.chance(extraDropoutRate)) {
+    return { ...observation, visible: false, confidence: 0 };
+  }
+
+  const angleStdDeg = camera.angleStdDeg * (observation.distance / 100);
+  const angle = normalizeAngle(observation.angle_deg + rng.gaussian(0, angleStdDeg));
+  const distance = Math.max(1, observation.distance * (1 + rng.gaussian(0, camera.distanceStdFraction)));
+
+  const expectedError = angleStdDeg / CONFIDENCE_ANGLE_SCALE_DEG + camera.distanceStdFraction;
+  const confidence = clamp(
+    (MAX_NOISY_CONFIDENCE / (1 + expectedError)) * (1 + rng.gaussian(0, 0.1)) * (1 - camera.dropoutRate),
+    0.05,
+    MAX_NOISY_CONFIDENCE
+  );
+
+  return {
+    ...observation,
+    angle_deg: angle,
+    distance,
+    confidence,
+    cx: Math.round(((angle + 180) / 360) * 320),
+  };
+}
+
+// Something orange that isn't the ball (a shirt, a reflection on the wall)
+function phantomObservation(rng: SeededRandom): Observation {
+  const angle = rng.range(-180, 180);
+  const distance = rng.range(20, 200);
+  const size = Math.round(50 * (1 - distance / 700));
+  return {
+    visible: true,
+    angle_deg: angle,
+    distance,
+    confidence: rng.range(0.1, 0.5),
+    cx: Math.round(((angle + 180) / 360) * 320),
+    cy: 120,
+    w: size,
+    h: size,
+  };
+}
+
+function normalizeAngle(deg: number): number {
+  let angle = deg;
+  while (angle > 180) angle -= 360;
+  while (angle < -180) angle += 360;
+  return angle;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,138 @@
+// ============================================================
+// RoboCup Jr. Simulator - Sensor Pipeline
+// ============================================================
+
+import { RosterRobot, SensorLatencyConfig, SensorName, WorldState } from '../types';
+import { DEFAULT_SENSOR_LATENCY } from '../types/constants';
+
+// WorldState fields read by each sensor
+export const SENSOR_FIELDS: Record<SensorName, (keyof WorldState)[]> = {
+  camera: ['ball', 'goal_blue', 'goal_yellow'],
+  imu: ['heading_deg', 'yaw_rate_dps', 'v_est', 'imu_calibration', 'stuck', 'stuck_confidence'],
+  line: ['line_reflectance', 'line_front', 'line_left', 'line_right', 'line_rear'],
+  bumper: ['bumper_front', 'bumper_left', 'bumper_right'],
+  range: ['range_cm'],
+  light_gate: ['ball_captured'],
+  dribbler: ['ball_held'],
+};
+
+const SENSOR_NAMES = Object.keys(SENSOR_FIELDS) as SensorName[];
+
+// Sensor readings of one robot taken at a simulation time
+interface SensorSample {
+  timeMs: number;
+  readings: Partial<WorldState>;
+}
+
+export type SensorPipelineSnapshot = [string, SensorSample[]][];
+
+// Same slack as the engine's control loop timing, so a delay of whole steps isn't missed by rounding
+const TIME_EPSILON_MS = 1e-6;
+
+// Complete a robot's sensor delays with the defaults and reject impossible values
+export function resolveSensorLatency(
+  robotId: string,
+  ...overrides: (Partial<SensorLatencyConfig> | undefined)[]
+): SensorLatencyConfig {
+  const resolved: SensorLatencyConfig = Object.assign({ ...DEFAULT_SENSOR_LATENCY }, ...overrides);
+  for (const sensor of SENSOR_NAMES) {
+    if (!(resolved[sensor] >= 0)) {
+      throw new Error(`Sensor latency (${robotId}): ${sensor} must be 0 or more ms (got ${resolved[sensor]})`);
+    }
+  }
+  return resolved;
+}
+
+// Time-stamped buffer between the observation system and the strategies. The engine records every
+// robot with a delayed sensor on each simulation step; a strategy then sees each sensor's fields as
+// they were that sensor's latency ago (the oldest sample until the buffer reaches back that far).
+// Robots without delays are never buffered and see the current readings.
+export class SensorPipeline {
+  private latencies: Map<string, SensorLatencyConfig> = new Map();
+  private samples: Map<string, SensorSample[]> = new Map();
+
+  // Sensor delays of every robot (defaults: SimulationConfig.sensorLatency)
+  configure(roster: RosterRobot[], defaults?: Partial<SensorLatencyConfig>): void {
+    this.latencies = new Map();
+    for (const robot of roster) {
+      const latency = resolveSensorLatency(robot.id, defaults, robot.sensorLatency);
+      if (SENSOR_NAMES.some((sensor) => latency[sensor] > 0)) {
+        this.latencies.set(robot.id, latency);
+      }
+    }
+    this.reset();
+  }
+
+  // Whether any of the robot's sensors is delayed (only those robots need recording)
+  isDelayed(robotId: string): boolean {
+    return this.latencies.has(robotId);
+  }
+
+  getLatency(robotId: string): SensorLatencyConfig {
+    return this.latencies.get(robotId) ?? { ...DEFAULT_SENSOR_LATENCY };
+  }
+
+  // Store the readings a robot's sensors take at nowMs
+  record(robotId: string, nowMs: number, worldState: WorldState): void {
+    const latency = this.latencies.get(robotId);
+    if (!latency) return;
+
+    const readings: Partial<WorldState> = {};
+    for (const sensor of SENSOR_NAMES) {
+      if (latency[sensor] === 0) continue;
+      for (const field of SENSOR_FIELDS[sensor]) {
+        (readings as Record<string, unknown>)[field] = copyReading(worldState[field]);
+      }
+    }
+    const samples = this.samples.get(robotId) ?? [];
+    samples.push({ timeMs: nowMs, readings });
+    this.samples.set(robotId, samples);
+
+    // Keep the newest sample the longest delay still needs, and everything after it
+    const maxLatency = Math.max(...SENSOR_NAMES.map((sensor) => latency[sensor]));
+    const needed = this.findSample(samples, nowMs - maxLatency);
+    if (needed > 0) samples.splice(0, needed);
+  }
+
+  // Replace the delayed sensors' fields of a worldState with their readings from latency ago
+  apply(robotId: string, nowMs: number, worldState: WorldState): void {
+    const latency = this.latencies.get(robotId);
+    const samples = this.samples.get(robotId);
+    if (!latency || !samples || samples.length === 0) return;
+
+    for (const sensor of SENSOR_NAMES) {
+      if (latency[sensor] === 0) continue;
+      const { readings } = samples[this.findSample(samples, nowMs - latency[sensor])];
+      for (const field of SENSOR_FIELDS[sensor]) {
+        (worldState as unknown as Record<string, unknown>)[field] = copyReading(readings[field]);
+      }
+    }
+  }
+
+  // Forget recorded readings (robots were moved, e.g. for a kickoff)
+  reset(): void {
+    this.samples.clear();
+  }
+
+  saveSnapshot(): SensorPipelineSnapshot {
+    return JSON.parse(JSON.stringify(Array.from(this.samples.entries())));
+  }
+
+  loadSnapshot(snapshot: SensorPipelineSnapshot): void {
+    this.samples = new Map(JSON.parse(JSON.stringify(snapshot)));
+  }
+
+  // Index of the newest sample taken at or before timeMs (0 if all are newer)
+  private findSample(samples: SensorSample[], timeMs: number): number {
+    for (let i = samples.length - 1; i > 0; i--) {
+      if (samples[i].timeMs <= timeMs + TIME_EPSILON_MS) return i;
+    }
+    return 0;
+  }
+}
+
+// Copy of a reading, so later changes to the worldState don't reach the buffer
+function copyReading<T>(value: T): T {
+  if (Array.isArray(value)) return value.slice() as T;
+  return typeof value === 'object' && value !== null ? { ...value } : value;
+}
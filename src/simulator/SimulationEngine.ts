@@ -2,51 +2,280 @@
 // RoboCup Jr. Simulator - Simulation Engine
 // ============================================================
 
-import { PhysicsEngine } from '../physics/PhysicsEngine';
-import { StrategyExecutor } from '../strategy/StrategyExecutor';
-import { Referee } from './Referee';
-import { ObservationSystem } from './ObservationSystem';
+import { PhysicsEngine, PhysicsSnapshot, PhysicsState } from '../physics/PhysicsEngine';
+import {
+  StrategyExecutor,
+  StrategySnapshot,
+  StrategyTiming,
+  DEFAULT_STRATEGY_TIME_BUDGET_MS,
+  DEFAULT_STRATEGY_LOOP_BUDGET,
+} from '../strategy/StrategyExecutor';
+import { StrategyHost, StrategyIsolation } from '../strategy/StrategyHost';
+import { WorkerStrategyHost } from '../strategy/WorkerStrategyHost';
+import { Referee, RefereeSnapshot } from './Referee';
+import { ObservationSystem, SensorPositions } from './ObservationSystem';
+import { SeededRandom, createRandomSeed } from './Random';
+import { hashSimulationState } from './StateHash';
+import { MatchRecorder, ReplayRobotFrame } from './MatchRecorder';
+import { resolveRoster } from './Roster';
+import { GameEventBus } from './GameEventBus';
+import { MatchTimeline } from './MatchTimeline';
+import { MatchStats, MatchStatsSnapshot } from './MatchStats';
+import { TeamComms, TeamCommsSnapshot, CommsStats } from './TeamComms';
+import { SensorPipeline, SensorPipelineSnapshot } from './SensorPipeline';
+import { applySensorNoise } from './SensorNoise';
+import { ImuModel, ImuSnapshot } from './ImuModel';
+import { KickerModel, KickerSnapshot } from './KickerModel';
+import { readRangeSensors, resolveRangeSensors } from './RangeSensors';
+import { resolveLineSensorConfig } from './LineSensors';
+import { readLightGate, resolveLightGateConfig } from './LightGate';
+import { resolveDriveConfig } from '../physics/OmniDrive';
 import {
   GameMode,
   GamePhase,
   GameState,
   Team,
   RobotRole,
+  RosterRobot,
   SimulationState,
   Action,
   WorldState,
   PerceptionMode,
+  MatchRules,
+  MatchEndReason,
+  GameEvent,
+  GameEventContext,
+  GameEventOf,
+  GameEventType,
+  CommsConfig,
+  SensorLatencyConfig,
+  SensorNoiseProfile,
+  ImuConfig,
+  RangeSensorConfig,
+  LineSensorConfig,
+  LightGateConfig,
+  KickerConfig,
+  DriveConfig,
   createDefaultAction,
 } from '../types';
-import { TIMING, STARTING_POSITIONS, FIELD, ROBOT, GOAL } from '../types/constants';
+import {
+  TIMING,
+  STARTING_POSITIONS,
+  FIELD,
+  ROBOT,
+  GOAL,
+  DEFAULT_MATCH_RULES,
+  DEFAULT_COMMS_CONFIG,
+  IDEAL_SENSOR_NOISE,
+  DEFAULT_LINE_SENSOR_CONFIG,
+  DEFAULT_LIGHT_GATE_CONFIG,
+} from '../types/constants';
 
 export interface SimulationConfig {
   mode: GameMode;
+  // Robots on the field with their start poses and strategies. Defaults to the robots of `mode`
+  // using the per-robot strategy fields below.
+  roster?: RosterRobot[];
   blueAttackerStrategy?: string;
   blueDefenderStrategy?: string;
   yellowAttackerStrategy?: string;
   yellowDefenderStrategy?: string;
+  fixedStepMs?: number; // Simulation timestep in ms (default: TIMING.PHYSICS_STEP)
+  seed?: number;        // Seed for all simulation randomness (random if omitted - see getSeed())
+  rules?: Partial<MatchRules>; // Overrides of DEFAULT_MATCH_RULES
+  strategyTimeBudgetMs?: number; // Wall-clock time per strategy tick in workers (default: DEFAULT_STRATEGY_TIME_BUDGET_MS)
+  strategyLoopBudget?: number; // Loop iterations per inline strategy tick (default: DEFAULT_STRATEGY_LOOP_BUDGET)
+  strategyIsolation?: StrategyIsolation; // Where strategies run (default: 'inline')
+  comms?: Partial<Record<Team, Partial<CommsConfig>>>; // Teammate link overrides of DEFAULT_COMMS_CONFIG
+  sensorLatency?: Partial<SensorLatencyConfig>; // Sensor delays of every robot (RosterRobot.sensorLatency overrides)
+  sensorNoise?: SensorNoiseProfile; // Sensor errors of every robot (default: IDEAL_SENSOR_NOISE)
+  imu?: Partial<ImuConfig>; // IMU of every robot, overrides of DEFAULT_IMU_CONFIG (RosterRobot.imu overrides)
+  rangeSensors?: RangeSensorConfig[]; // Range sensors of every robot (default: none; RosterRobot.rangeSensors replaces)
+  lineSensors?: Partial<LineSensorConfig>; // Line sensor ring of every robot (RosterRobot.lineSensors overrides)
+  lightGate?: Partial<LightGateConfig>; // Kicker notch light gate of every robot (RosterRobot.lightGate overrides)
+  kicker?: Partial<KickerConfig>; // Kicker of every robot, overrides of DEFAULT_KICKER_CONFIG (RosterRobot.kicker overrides)
+  drive?: Partial<DriveConfig>; // Wheel drive of every robot, overrides of DEFAULT_DRIVE_CONFIG (RosterRobot.drive overrides)
+}
+
+// Complete the configured teammate links with the defaults and reject impossible values
+function resolveCommsConfig(comms: SimulationConfig['comms'] = {}): Record<Team, CommsConfig> {
+  const resolve = (team: Team): CommsConfig => {
+    const resolved: CommsConfig = { ...DEFAULT_COMMS_CONFIG, ...comms[team] };
+    for (const key of ['latencyMs', 'jitterMs', 'bandwidthBytesPerSec', 'maxMessageBytes'] as const) {
+      if (!(resolved[key] >= 0)) {
+        throw new Error(`Comms (${team}): ${key} must be 0 or more (got ${resolved[key]})`);
+      }
+    }
+    if (!(resolved.dropRate >= 0 && resolved.dropRate <= 1)) {
+      throw new Error(`Comms (${team}): dropRate must be between 0 and 1 (got ${resolved.dropRate})`);
+    }
+    return resolved;
+  };
+  return { blue: resolve('blue'), yellow: resolve('yellow') };
+}
+
+export interface StrategyStatus {
+  budgetMs: number;
+  timing?: StrategyTiming;
+  error?: string;
+}
+
+// Complete the configured rules with the defaults and reject values the match can't run with
+function resolveMatchRules(rules: Partial<MatchRules> = {}): MatchRules {
+  const resolved: MatchRules = { ...DEFAULT_MATCH_RULES, ...rules };
+  if (!Number.isInteger(resolved.halves) || resolved.halves < 1) {
+    throw new Error(`Match rules: halves must be a positive integer (got ${resolved.halves})`);
+  }
+  for (const key of ['halfDurationMs', 'kickoffCountdownMs', 'outOfBoundsCountdownMs', 'goalCountdownMs', 'lackOfProgressMs'] as const) {
+    if (!(resolved[key] > 0)) {
+      throw new Error(`Match rules: ${key} must be positive (got ${resolved[key]})`);
+    }
+  }
+  if (!(resolved.mercyGoalDifference >= 0)) {
+    throw new Error(`Match rules: mercyGoalDifference must be 0 or more (got ${resolved.mercyGoalDifference})`);
+  }
+  return resolved;
+}
+
+// Reject a timestep the fixed-step loop can't advance by
+function checkFixedStepMs(fixedStepMs: number | undefined): void {
+  if (fixedStepMs !== undefined && !(fixedStepMs > 0 && Number.isFinite(fixedStepMs))) {
+    throw new Error(`fixedStepMs must be a positive number of milliseconds (got ${fixedStepMs})`);
+  }
+}
+
+type CameraObservations = {
+  ball?: { distance: number; angle_deg: number };
+  goal_blue?: { distance: number; angle_deg: number };
+  goal_yellow?: { distance: number; angle_deg: number };
+};
+
+type PenalizedRobot = { team: Team; role: RobotRole; x: number; y: number; angle: number };
+
+// Event-specific fields of a game event (the context fields are filled in by the engine)
+type GameEventData<T extends GameEventType> = Omit<GameEventOf<T>, keyof GameEventContext | 'type'>;
+
+// Complete engine state, JSON-serializable (maps are stored as [key, value] entries)
+export interface SimulationSnapshot {
+  version: number;
+  config: SimulationConfig;
+  gameState: GameState;
+  tick: number;
+  rng: { seed: number; state: number };
+  perceptionMode: PerceptionMode;
+  sensorNoise: SensorNoiseProfile;
+  physics: PhysicsSnapshot;
+  referee: RefereeSnapshot;
+  sensorPositions: Record<string, SensorPositions>;
+  penalties: {
+    consecutiveLineCrossings: [string, number][];
+    penaltyEndTimes: [string, number][];
+    lastLineCrossingTime: [string, number][];
+    penaltyRobotStates: [string, PenalizedRobot][];
+  };
+  ballTracking: {
+    ballLastPosition: { x: number; y: number } | null;
+    ballStuckTime: number;
+    lastTouchRobotId: string | null;
+  };
+  timeline: GameEvent[];
+  matchStats: MatchStatsSnapshot;
+  comms: TeamCommsSnapshot;
+  robotStates: [string, string][];
+  robotTargets: [string, string][];
+  robotMentalMaps: [string, any][];
+  robotLoops: [string, RobotLoop][];
+  sensorSamples: SensorPipelineSnapshot;
+  imu: ImuSnapshot;
+  kickers: KickerSnapshot;
+  cameraObservations: [string, CameraObservations][];
+  strategies: Record<string, StrategySnapshot>;
+}
+
+const SNAPSHOT_VERSION = 1;
+
+// A robot's control loop and camera run at their own rates (RosterRobot.controlHz / cameraHz).
+// Both are sampled on simulation steps, so a rate above the step rate runs every step.
+interface RobotLoop {
+  controlPeriodMs: number;
+  cameraPeriodMs: number;
+  nextControlMs: number;         // simulation time (ms) of the next strategy call (0 = the next step)
+  lastControlMs: number | null;
+  heldAction: Action;            // motor command applied until the next strategy call
+  nextCameraMs: number;
+  heldVision: Pick<WorldState, 'ball' | 'goal_blue' | 'goal_yellow'> | null;
+}
+
+// Half a microsecond of slack so accumulated periods don't miss a step by rounding
+const isDue = (dueMs: number, nowMs: number): boolean => nowMs >= dueMs - 1e-6;
+
+// Next due time after a run at nowMs: one period after the previous due time, which keeps the
+// average rate, unless that has already passed (a new loop, or a period shorter than a step)
+function nextDue(dueMs: number, periodMs: number, nowMs: number): number {
+  const next = dueMs + periodMs;
+  return isDue(next, nowMs) ? nowMs + periodMs : next;
+}
+
+// Range sensors of each robot: its own, or the config's for every robot
+function resolveRosterRangeSensors(
+  roster: RosterRobot[],
+  defaults: RangeSensorConfig[] | undefined
+): Map<string, RangeSensorConfig[]> {
+  return new Map(roster.map((robot) => [robot.id, resolveRangeSensors(robot.id, robot.rangeSensors ?? defaults)]));
+}
+
+// Line sensor ring of each robot
+function resolveRosterLineSensors(
+  roster: RosterRobot[],
+  defaults: Partial<LineSensorConfig> | undefined
+): Map<string, LineSensorConfig> {
+  return new Map(roster.map((robot) => [robot.id, resolveLineSensorConfig(robot.id, defaults, robot.lineSensors)]));
+}
+
+// Light gate of each robot
+function resolveRosterLightGates(
+  roster: RosterRobot[],
+  defaults: Partial<LightGateConfig> | undefined
+): Map<string, LightGateConfig> {
+  return new Map(roster.map((robot) => [robot.id, resolveLightGateConfig(robot.id, defaults, robot.lightGate)]));
 }
 
+// Wheel drive of each robot
+function resolveRosterDrives(roster: RosterRobot[], defaults: Partial<DriveConfig> | undefined): Map<string, DriveConfig> {
+  return new Map(roster.map((robot) => [robot.id, resolveDriveConfig(robot.id, defaults, robot.drive)]));
+}
+
+// Robots within this distance of a stationary ball are reported in lack_of_progress events (cm)
+const LACK_OF_PROGRESS_RADIUS = 30;
+
+// Upper bound on fixed steps per animation frame, so a long stall doesn't freeze the page catching up
+const MAX_STEPS_PER_FRAME = 20;
+
 export class SimulationEngine {
   private physics: PhysicsEngine;
   private referee: Referee;
-  private strategyExecutor: StrategyExecutor;
+  private strategyHost: StrategyHost;
   private observationSystem: ObservationSystem;
+  private rng: SeededRandom;
   
   private gameState: GameState;
   private config: SimulationConfig;
+  private roster: RosterRobot[] = [];
+  private rules: MatchRules = DEFAULT_MATCH_RULES;
   
   private lastUpdateTime: number = 0;
+  private accumulatorMs: number = 0;
+  private tickCount: number = 0;
   private animationFrameId: number | null = null;
   private isRunning: boolean = false;
   private speedMultiplier: number = 1;
+  private debugLogging: boolean = true;
 
   // Line crossing penalty tracking
   private consecutiveLineCrossings: Map<string, number> = new Map(); // robotId -> count
   private penaltyEndTimes: Map<string, number> = new Map(); // robotId -> end time (ms)
   private lastLineCrossingTime: Map<string, number> = new Map(); // robotId -> last crossing time
-  private penaltyRobotStates: Map<string, { team: Team; role: RobotRole; x: number; y: number; angle: number }> = new Map(); // robotId -> saved state
+  private penaltyRobotStates: Map<string, PenalizedRobot> = new Map(); // robotId -> saved state
   private readonly LINE_CROSSING_THRESHOLD = 3; // Penalty after 3 consecutive crossings
   private readonly PENALTY_DURATION_MS = 5000; // 5 seconds penalty
 
@@ -55,6 +284,7 @@ export class SimulationEngine {
   private ballStuckTime: number = 0;
   private readonly BALL_STUCK_THRESHOLD_MS = 10000; // 10 seconds without significant movement
   private readonly BALL_MOVEMENT_THRESHOLD = 5; // cm - ball must move at least this much
+  private lastTouchRobotId: string | null = null; // robot that last touched the ball (event attribution)
 
   // Robot strategy states (for display)
   private robotStates: Map<string, string> = new Map(); // robotId -> current state
@@ -62,14 +292,11 @@ export class SimulationEngine {
   private robotMentalMaps: Map<string, any> = new Map(); // robotId -> mental map data
 
   // Camera-based observations (override physics-based observations)
-  private cameraObservations: Map<string, {
-    ball?: { distance: number; angle_deg: number };
-    goal_blue?: { distance: number; angle_deg: number };
-    goal_yellow?: { distance: number; angle_deg: number };
-  }> = new Map(); // robotId -> camera observations
+  private cameraObservations: Map<string, CameraObservations> = new Map(); // robotId -> camera observations
 
   // Perception source for strategy inputs
   private perceptionMode: PerceptionMode = 'camera_conical_360';
+  private sensorNoise: SensorNoiseProfile = IDEAL_SENSOR_NOISE;
   private cameraStrictMode: boolean = false; // If true, undetected camera objects become invisible
   private strategyTraceEnabled: boolean = false;
   private strategyTraceUrl: string = '';
@@ -77,15 +304,37 @@ export class SimulationEngine {
   private lastStrategyTraceFlushMs: number = 0;
   private strategyTraceErrorLogged: boolean = false;
 
+  // Match recording (replay files)
+  private recorder: MatchRecorder | null = null;
+  private tickRobotFrames: Record<string, ReplayRobotFrame> = {};
+
+  // Game events: subscribers and the ordered record of the current match
+  private eventBus: GameEventBus = new GameEventBus();
+  private timeline: MatchTimeline = new MatchTimeline();
+  private matchStats: MatchStats = new MatchStats();
+  private comms: TeamComms;
+  private robotLoops: Map<string, RobotLoop> = new Map();
+  private sensorPipeline: SensorPipeline = new SensorPipeline();
+  private imu: ImuModel;
+  private kickers: KickerModel = new KickerModel();
+  private rangeSensors: Map<string, RangeSensorConfig[]> = new Map();
+  private lineSensors: Map<string, LineSensorConfig> = new Map();
+  private lightGates: Map<string, LightGateConfig> = new Map();
+
   // Callbacks
   private onStateUpdate: ((state: SimulationState) => void) | null = null;
-  private onGameEvent: ((event: string, data?: any) => void) | null = null;
+  private onRobotFrame: ((robotId: string, frame: ReplayRobotFrame) => void) | null = null;
+  private sensorOverride: ((robotId: string, worldState: WorldState) => void) | null = null;
 
   constructor() {
+    // Single seeded generator shared by every stochastic subsystem
+    this.rng = new SeededRandom(createRandomSeed());
     this.physics = new PhysicsEngine();
-    this.referee = new Referee();
-    this.strategyExecutor = new StrategyExecutor();
+    this.referee = new Referee(this.rng);
+    this.strategyHost = new StrategyExecutor(() => this.rng.next());
     this.observationSystem = new ObservationSystem();
+    this.comms = new TeamComms(this.rng);
+    this.imu = new ImuModel(this.rng);
     
     this.config = { mode: GameMode.TwoTeam };
     
@@ -104,6 +353,7 @@ export class SimulationEngine {
 
     this.setupPhysicsCallbacks();
     this.setupRefereeCallbacks();
+    this.eventBus.on('goal', (event) => this.matchStats.recordEvent(event));
 
     const env = (import.meta as any).env || {};
     this.strategyTraceEnabled = env.VITE_STRATEGY_TRACE === '1' || env.VITE_STRATEGY_TRACE === 'true';
@@ -113,12 +363,33 @@ export class SimulationEngine {
 
   // Initialize the simulation
   initialize(config: SimulationConfig): void {
+    checkFixedStepMs(config.fixedStepMs);
     this.config = config;
+    this.roster = resolveRoster(config);
+    this.applyRules(resolveMatchRules(config.rules));
+    this.applyStrategyConfig(config);
+    this.comms.configure(this.roster, resolveCommsConfig(config.comms));
+    this.sensorPipeline.configure(this.roster, config.sensorLatency);
+    this.sensorNoise = config.sensorNoise ?? IDEAL_SENSOR_NOISE;
+    this.imu.configure(this.roster, config.imu);
+    this.kickers.configure(this.roster, config.kicker);
+    this.physics.configureDrives(resolveRosterDrives(this.roster, config.drive));
+    this.rangeSensors = resolveRosterRangeSensors(this.roster, config.rangeSensors);
+    this.lineSensors = resolveRosterLineSensors(this.roster, config.lineSensors);
+    this.lightGates = resolveRosterLightGates(this.roster, config.lightGate);
     this.gameState.mode = config.mode;
+    this.rng.reseed(config.seed ?? createRandomSeed());
+    this.tickCount = 0;
+    this.referee.reset();
+    this.observationSystem.reset();
     
     // Reset ball tracking
     this.ballStuckTime = 0;
     this.ballLastPosition = null;
+    this.lastTouchRobotId = null;
+    this.timeline.clear();
+    this.matchStats.reset();
+    this.comms.reset();
     
     this.physics.initialize();
     this.createRobots();
@@ -126,93 +397,44 @@ export class SimulationEngine {
     
     this.resetPositions();
     this.gameState.phase = GamePhase.Kickoff;
-    this.gameState.countdown_ms = TIMING.KICKOFF_COUNTDOWN;
+    this.gameState.countdown_ms = this.rules.kickoffCountdownMs;
     
     // Disable out-of-bounds checking during kickoff countdown
     this.physics.setOutOfBoundsCheckEnabled(false);
-  }
 
-  // Create robots based on game mode
-  private createRobots(): void {
-    const { mode } = this.config;
+    this.beginRecording();
+  }
 
-    // Always create blue team
-    if (mode === GameMode.SingleBotAttacker) {
-      // Single bot attacker
-      this.physics.createRobot(
-        'blue_attacker',
-        'blue',
-        'attacker',
-        STARTING_POSITIONS.blue.attacker.x,
-        STARTING_POSITIONS.blue.attacker.y,
-        STARTING_POSITIONS.blue.attacker.angle
-      );
-    } else if (mode === GameMode.SingleBotDefender) {
-      // Single bot defender
-      this.physics.createRobot(
-        'blue_defender',
-        'blue',
-        'defender',
-        STARTING_POSITIONS.blue.defender.x,
-        STARTING_POSITIONS.blue.defender.y,
-        STARTING_POSITIONS.blue.defender.angle
-      );
-    } else {
-      // Both blue robots
-      this.physics.createRobot(
-        'blue_attacker',
-        'blue',
-        'attacker',
-        STARTING_POSITIONS.blue.attacker.x,
-        STARTING_POSITIONS.blue.attacker.y,
-        STARTING_POSITIONS.blue.attacker.angle
-      );
-      this.physics.createRobot(
-        'blue_defender',
-        'blue',
-        'defender',
-        STARTING_POSITIONS.blue.defender.x,
-        STARTING_POSITIONS.blue.defender.y,
-        STARTING_POSITIONS.blue.defender.angle
-      );
+  // Switch to the configured kind of strategy host (dropping loaded strategies) and set its budget
+  private applyStrategyConfig(config: SimulationConfig): void {
+    const isolation = config.strategyIsolation ?? 'inline';
+    if (this.strategyHost.isolation !== isolation) {
+      this.strategyHost.dispose();
+      const random = () => this.rng.next();
+      this.strategyHost = isolation === 'worker' ? new WorkerStrategyHost(random) : new StrategyExecutor(random);
     }
+    this.strategyHost.setTimeBudget(config.strategyTimeBudgetMs ?? DEFAULT_STRATEGY_TIME_BUDGET_MS);
+    // Inline strategies count their budget in loop iterations, so interrupting or disabling one
+    // never depends on the machine's speed and seeded runs reproduce. Worker runs aren't
+    // reproducible anyway and keep the wall-clock budget.
+    if (this.strategyHost instanceof StrategyExecutor) {
+      this.strategyHost.setLoopBudget(config.strategyLoopBudget ?? DEFAULT_STRATEGY_LOOP_BUDGET);
+    }
+  }
 
-    // Create yellow team for TwoTeam mode
-    if (mode === GameMode.TwoTeam) {
-      this.physics.createRobot(
-        'yellow_attacker',
-        'yellow',
-        'attacker',
-        STARTING_POSITIONS.yellow.attacker.x,
-        STARTING_POSITIONS.yellow.attacker.y,
-        STARTING_POSITIONS.yellow.attacker.angle
-      );
-      this.physics.createRobot(
-        'yellow_defender',
-        'yellow',
-        'defender',
-        STARTING_POSITIONS.yellow.defender.x,
-        STARTING_POSITIONS.yellow.defender.y,
-        STARTING_POSITIONS.yellow.defender.angle
-      );
+  // Create the roster's robots at their start poses
+  private createRobots(): void {
+    for (const robot of this.roster) {
+      this.physics.createRobot(robot.id, robot.team, robot.role, robot.start.x, robot.start.y, robot.start.angle);
     }
   }
 
   // Load strategy code
   private loadStrategies(): void {
-    const { blueAttackerStrategy, blueDefenderStrategy, yellowAttackerStrategy, yellowDefenderStrategy } = this.config;
-
-    if (blueAttackerStrategy) {
-      this.strategyExecutor.loadStrategy('blue_attacker', blueAttackerStrategy);
-    }
-    if (blueDefenderStrategy) {
-      this.strategyExecutor.loadStrategy('blue_defender', blueDefenderStrategy);
-    }
-    if (yellowAttackerStrategy) {
-      this.strategyExecutor.loadStrategy('yellow_attacker', yellowAttackerStrategy);
-    }
-    if (yellowDefenderStrategy) {
-      this.strategyExecutor.loadStrategy('yellow_defender', yellowDefenderStrategy);
+    for (const robot of this.roster) {
+      if (robot.strategy) {
+        this.strategyHost.loadStrategy(robot.id, robot.strategy);
+      }
     }
   }
 
@@ -232,14 +454,20 @@ export class SimulationEngine {
     // });
 
     this.physics.setOnCollision((a, b) => {
+      const robots = this.physics.getRobots();
+      const robotA = a.startsWith('robot_') ? robots.get(a.slice('robot_'.length)) : undefined;
+      const robotB = b.startsWith('robot_') ? robots.get(b.slice('robot_'.length)) : undefined;
+
       // Track last touch for determining possession
       if (a === 'ball' || b === 'ball') {
-        const other = a === 'ball' ? b : a;
-        if (other.startsWith('robot_blue')) {
-          this.gameState.last_touch_team = 'blue';
-        } else if (other.startsWith('robot_yellow')) {
-          this.gameState.last_touch_team = 'yellow';
+        const robot = robotA ?? robotB;
+        if (robot) {
+          this.gameState.last_touch_team = robot.team;
+          this.lastTouchRobotId = robot.id;
+          this.matchStats.recordTouch(robot.id, robot.team);
         }
+      } else if (robotA && robotB) {
+        this.matchStats.recordRobotCollision(robotA, robotB);
       }
     });
   }
@@ -261,11 +489,35 @@ export class SimulationEngine {
       this.gameState.score_yellow++;
     }
 
+    // Own goal: the conceding team was the last to touch the ball
+    const concedingTeam: Team = scoringTeam === 'blue' ? 'yellow' : 'blue';
+    const ownGoal = this.gameState.last_touch_team === concedingTeam;
+
     this.gameState.phase = GamePhase.Goal;
-    this.gameState.countdown_ms = TIMING.GOAL_CELEBRATION;
-    this.gameState.kickoff_team = scoringTeam === 'blue' ? 'yellow' : 'blue';
+    this.gameState.countdown_ms = this.rules.goalCountdownMs;
+    this.gameState.kickoff_team = concedingTeam;
+
+    this.emitGameEvent('goal', { team: scoringTeam, own_goal: ownGoal, score: this.getScore() }, this.lastTouchRobots());
 
-    this.onGameEvent?.('goal', { team: scoringTeam, score: this.getScore() });
+    // A golden goal or a mercy-rule lead ends the match right away
+    const goalDifference = Math.abs(this.gameState.score_blue - this.gameState.score_yellow);
+    if (this.isGoldenGoalPeriod()) {
+      this.endMatch('golden_goal');
+    } else if (this.rules.mercyGoalDifference > 0 && goalDifference >= this.rules.mercyGoalDifference) {
+      this.endMatch('mercy');
+    }
+  }
+
+  // The extra period played after the last half when golden goal decides a tie
+  private isGoldenGoalPeriod(): boolean {
+    return this.gameState.half > this.rules.halves;
+  }
+
+  private endMatch(reason: MatchEndReason): void {
+    this.gameState.phase = GamePhase.Finished;
+    this.gameState.countdown_ms = 0;
+    this.isRunning = false;
+    this.emitGameEvent('game_end', { reason, score: this.getScore() });
   }
 
   // Handle robot out of bounds (in goal area)
@@ -273,11 +525,11 @@ export class SimulationEngine {
     // Immediately move robot outside goal area
     this.physics.moveRobotOutsideGoalArea(robotId, goalArea);
     
-    // Reset state machines when robots are artificially moved
-    this.resetStrategyStates();
+    // Sensors and control loops restart from the new poses
+    this.resetRobotTracking();
     
     // Log for debugging
-    console.log(`[handleRobotOutOfBounds] Robot ${robotId} moved outside ${goalArea} goal area`);
+    this.debugLog(`[handleRobotOutOfBounds] Robot ${robotId} moved outside ${goalArea} goal area`);
   }
 
   // Handle ball out of bounds
@@ -288,21 +540,20 @@ export class SimulationEngine {
     this.physics.setOutOfBoundsCheckEnabled(false);
 
     this.gameState.phase = GamePhase.OutOfBounds;
-    this.gameState.countdown_ms = TIMING.OUT_OF_BOUNDS_COUNTDOWN;
+    this.gameState.countdown_ms = this.rules.outOfBoundsCountdownMs;
 
-    // Find nearest neutral spot and move ball there immediately
+    // Find nearest neutral spot and move ball there immediately (after reporting where it went out)
     const neutralSpot = this.referee.findNearestNeutralSpot(side);
-    console.log(`[handleOutOfBounds] Moving ball to neutral spot:`, neutralSpot);
+    this.emitGameEvent('out_of_bounds', { side, neutral_spot: neutralSpot }, this.lastTouchRobots());
+    this.debugLog(`[handleOutOfBounds] Moving ball to neutral spot:`, neutralSpot);
     this.physics.setBallPosition(neutralSpot.x, neutralSpot.y);
     
     // Push robots away from the ball (minimum 20cm distance per RCJ rules)
     const MIN_ROBOT_DISTANCE = 20;
     this.physics.pushRobotsAwayFrom(neutralSpot.x, neutralSpot.y, MIN_ROBOT_DISTANCE + ROBOT.RADIUS);
     
-    // Reset state machines when robots are artificially moved
-    this.resetStrategyStates();
-    
-    this.onGameEvent?.('out_of_bounds', { side, neutralSpot });
+    // Sensors and control loops restart from the new poses
+    this.resetRobotTracking();
   }
 
   // Handle lack of progress
@@ -312,9 +563,8 @@ export class SimulationEngine {
     // Move ball to nearest neutral spot
     const ballState = this.physics.getState().ball;
     const neutralSpot = this.referee.findNearestNeutralSpotToPosition(ballState.x, ballState.y);
+    this.emitGameEvent('lack_of_progress', { neutral_spot: neutralSpot }, this.robotsNearBall(LACK_OF_PROGRESS_RADIUS));
     this.physics.setBallPosition(neutralSpot.x, neutralSpot.y);
-
-    this.onGameEvent?.('lack_of_progress', { neutralSpot });
   }
 
   // Reset positions to starting positions
@@ -325,40 +575,83 @@ export class SimulationEngine {
     // Reset robots
     const robots = this.physics.getRobots();
     for (const [id, robot] of robots) {
-      const pos = this.getStartingPosition(robot.team, robot.role);
+      const pos = this.getStartingPosition(id);
       this.physics.setRobotPosition(id, pos.x, pos.y, pos.angle);
     }
     
-    // Reset state machines when robots are artificially moved
-    this.resetStrategyStates();
+    // Sensors and control loops restart from the new poses
+    this.resetRobotTracking();
   }
   
-  // Reset strategy state machines (called when robots are artificially moved)
-  private resetStrategyStates(): void {
+  // Restart sensing and control after robots were moved by hand or by the referee. Strategies keep
+  // running with their own state, like a real robot that is picked up and put down.
+  private resetRobotTracking(): void {
     // Clear robot strategy states (for display)
     this.robotStates.clear();
     this.robotTargets.clear();
     this.robotMentalMaps.clear();
-    
-    // Reload strategies to reset their state machines (like power-on reset)
-    this.loadStrategies();
+    this.robotLoops.clear();
+    this.sensorPipeline.reset();
+    this.imu.recenter();
   }
 
-  // Get starting position for a robot
-  private getStartingPosition(team: Team, role: RobotRole): { x: number; y: number; angle: number } {
-    return STARTING_POSITIONS[team][role];
+  // Control loop and camera timing of a robot (started on its first control tick)
+  private getRobotLoop(robotId: string): RobotLoop {
+    let loop = this.robotLoops.get(robotId);
+    if (!loop) {
+      const robot = this.roster.find((r) => r.id === robotId);
+      const stepMs = this.getFixedStepMs();
+      loop = {
+        controlPeriodMs: robot?.controlHz ? 1000 / robot.controlHz : stepMs,
+        cameraPeriodMs: robot?.cameraHz ? 1000 / robot.cameraHz : stepMs,
+        nextControlMs: 0,
+        lastControlMs: null,
+        heldAction: createDefaultAction(),
+        nextCameraMs: 0,
+        heldVision: null,
+      };
+      this.robotLoops.set(robotId, loop);
+    }
+    return loop;
+  }
+
+  // Get starting position for a robot (its roster start pose)
+  private getStartingPosition(robotId: string): { x: number; y: number; angle: number } {
+    const robot = this.roster.find((r) => r.id === robotId);
+    return robot ? robot.start : { x: 0, y: 0, angle: 0 };
   }
 
-  // Main game loop
+  // Main game loop (browser only - driven by requestAnimationFrame)
   private gameLoop = (currentTime: number): void => {
     if (!this.isRunning) return;
 
     const deltaTime = this.lastUpdateTime ? (currentTime - this.lastUpdateTime) : TIMING.PHYSICS_STEP;
     this.lastUpdateTime = currentTime;
 
-    const scaledDelta = deltaTime * this.speedMultiplier;
-    // Countdowns use real time (unscaled) so they're not affected by speed multiplier
-    const unscaledDelta = deltaTime;
+    // Accumulate simulated time and advance in fixed steps, so a browser run evolves
+    // exactly like a headless run of the same seed (frame timing never reaches the physics)
+    const stepMs = this.getFixedStepMs();
+    this.accumulatorMs = Math.min(
+      this.accumulatorMs + deltaTime * this.speedMultiplier,
+      stepMs * MAX_STEPS_PER_FRAME
+    );
+
+    while (this.accumulatorMs >= stepMs && this.isRunning) {
+      this.accumulatorMs -= stepMs;
+      // Countdowns use real time (unscaled) so they're not affected by speed multiplier
+      this.tick(stepMs, stepMs / this.speedMultiplier);
+    }
+
+    // Continue loop
+    this.animationFrameId = requestAnimationFrame(this.gameLoop);
+  };
+
+  // Advance the simulation by one step
+  // scaledDelta: simulated time for physics and game clock
+  // unscaledDelta: time used for countdowns and timers
+  private tick(scaledDelta: number, unscaledDelta: number): void {
+    this.tickCount++;
+    this.tickRobotFrames = {};
 
     // Update based on game phase
     switch (this.gameState.phase) {
@@ -381,29 +674,84 @@ export class SimulationEngine {
         break;
     }
 
+    const state = this.getSimulationState();
+    this.recorder?.recordFrame(state, this.tickRobotFrames);
+
     // Notify state update
-    this.onStateUpdate?.(this.getSimulationState());
+    this.onStateUpdate?.(state);
+  }
 
-    // Continue loop
-    this.animationFrameId = requestAnimationFrame(this.gameLoop);
-  };
+  // Advance the simulation by a number of fixed timesteps without requestAnimationFrame.
+  // Used for headless runs (Node, batch experiments, CI). Stops early once the game is finished.
+  // The paused flag is left alone: it tracks start()/pause() of the browser loop.
+  stepFixed(steps: number = 1): SimulationState {
+    const stepMs = this.getFixedStepMs();
+
+    for (let i = 0; i < steps; i++) {
+      if (this.gameState.phase === GamePhase.Finished) break;
+      // Speed multiplier does not apply - every step is exactly stepMs of simulated time
+      this.tick(stepMs, stepMs);
+    }
+
+    return this.getSimulationState();
+  }
+
+  // Step with the fixed timestep until the predicate holds, the game finishes or maxSteps is reached
+  runUntil(
+    predicate: (state: SimulationState) => boolean,
+    maxSteps: number = Number.POSITIVE_INFINITY
+  ): { state: SimulationState; steps: number; satisfied: boolean } {
+    let state = this.getSimulationState();
+    let steps = 0;
+
+    while (steps < maxSteps) {
+      if (predicate(state)) {
+        return { state, steps, satisfied: true };
+      }
+      if (state.game.phase === GamePhase.Finished) break;
+      state = this.stepFixed(1);
+      steps++;
+    }
+
+    return { state, steps, satisfied: predicate(state) };
+  }
+
+  // Rules of the current match (config.rules completed with DEFAULT_MATCH_RULES)
+  getMatchRules(): MatchRules {
+    return { ...this.rules };
+  }
+
+  private applyRules(rules: MatchRules): void {
+    this.rules = rules;
+    this.referee.setLackOfProgressMs(rules.lackOfProgressMs);
+  }
+
+  // Get the timestep used by stepFixed()
+  getFixedStepMs(): number {
+    return this.config.fixedStepMs ?? TIMING.PHYSICS_STEP;
+  }
 
   // Update during kickoff countdown
   private updateKickoff(deltaMs: number): void {
     this.gameState.countdown_ms -= deltaMs;
     
     if (this.gameState.countdown_ms <= 0) {
-      this.gameState.phase = GamePhase.Playing;
-      this.gameState.countdown_ms = 0;
-      // Enable out-of-bounds checking when play starts
-      this.physics.setOutOfBoundsCheckEnabled(true);
-      // Reset ball tracking when play starts
-      this.ballStuckTime = 0;
-      this.ballLastPosition = null;
-      this.onGameEvent?.('kickoff_start', {});
+      this.startPlay();
     }
   }
 
+  // End the kickoff countdown and start play (called early by scenarios that skip the kickoff)
+  startPlay(): void {
+    this.gameState.phase = GamePhase.Playing;
+    this.gameState.countdown_ms = 0;
+    // Enable out-of-bounds checking when play starts
+    this.physics.setOutOfBoundsCheckEnabled(true);
+    // Reset ball tracking when play starts
+    this.ballStuckTime = 0;
+    this.ballLastPosition = null;
+    this.emitGameEvent('kickoff_start', { kickoff_team: this.gameState.kickoff_team });
+  }
+
   // Update during active play
   // deltaMs: scaled delta for physics (affected by speed multiplier)
   // unscaledDeltaMs: real time delta for countdowns and timers (not affected by speed multiplier)
@@ -411,16 +759,15 @@ export class SimulationEngine {
     // Update game time (use scaled delta so game time progresses faster at higher speeds)
     this.gameState.time_elapsed_ms += deltaMs;
 
-    // Check for half time / end
-    if (this.gameState.time_elapsed_ms >= TIMING.HALF_DURATION) {
-      if (this.gameState.half === 1) {
+    // Check for half time / end (the golden goal period has no time limit)
+    if (this.gameState.time_elapsed_ms >= this.rules.halfDurationMs && !this.isGoldenGoalPeriod()) {
+      const tied = this.gameState.score_blue === this.gameState.score_yellow;
+      if (this.gameState.half < this.rules.halves || (tied && this.rules.goldenGoal)) {
         this.gameState.phase = GamePhase.HalfTime;
-        this.gameState.countdown_ms = TIMING.KICKOFF_COUNTDOWN;
-        this.onGameEvent?.('half_time', {});
+        this.gameState.countdown_ms = this.rules.kickoffCountdownMs;
+        this.emitGameEvent('half_time', {});
       } else {
-        this.gameState.phase = GamePhase.Finished;
-        this.isRunning = false;
-        this.onGameEvent?.('game_end', { score: this.getScore() });
+        this.endMatch('time');
       }
       return;
     }
@@ -432,125 +779,48 @@ export class SimulationEngine {
     // Execute strategies and get actions
     const physicsState = this.physics.getState();
     const robots = this.physics.getRobots();
+    const simTimeMs = this.tickCount * this.getFixedStepMs();
 
     // Process all active robots (penalized robots are removed from physics, so they won't be here)
     for (const [id, robot] of robots) {
-      // Calculate world state for this robot (base observations from physics)
-      const worldState = this.observationSystem.calculateWorldState(
-        id,
-        physicsState,
-        this.gameState.time_elapsed_ms,
-        deltaMs / 1000,
-        robot.team === 'blue'
-      );
+      const loop = this.getRobotLoop(id);
 
-      // Log physics observations before override
-      const physicsBall = { ...worldState.ball };
-      const physicsBlueGoal = { ...worldState.goal_blue };
-      const physicsYellowGoal = { ...worldState.goal_yellow };
-      const visionSource = {
-        ball: 'physics',
-        goal_blue: 'physics',
-        goal_yellow: 'physics',
-      };
+      const isFirstRobot = id === robots.keys().next().value; // Log for the first robot only to avoid spam
+      this.imu.update(id, physicsState.robots.get(id)!, loop.heldAction, simTimeMs, deltaMs);
 
-      if (id === robots.keys().next().value) { // Log for first robot only to avoid spam
-        console.log(`[SimEngine] Robot ${id}: perceptionMode=${this.perceptionMode}`);
-        console.log(`[SimEngine] Physics ball: visible=${worldState.ball.visible}, distance=${worldState.ball.distance.toFixed(1)}, angle=${worldState.ball.angle_deg.toFixed(1)}`);
-      }
-      
-      // Conditionally override with camera-based observations or use physics data
-      const useCameraData = this.perceptionMode !== 'physics';
-      if (useCameraData) {
-        // Use camera-based observations (strategies use camera calculations)
-        // Camera observations map only contains detected objects (undetected objects are not in the map)
-        const cameraObs = this.cameraObservations.get(id);
-        
-        if (id === robots.keys().next().value) {
-          console.log(`[SimEngine] Camera obs exists:`, !!cameraObs);
-          if (cameraObs) {
-            console.log(`[SimEngine] Camera ball:`, cameraObs.ball ? `visible, dist=${cameraObs.ball.distance.toFixed(1)}` : 'not detected');
-          }
-        }
-        
-        // Override ball observation with camera data (if camera has run for this robot)
-        if (cameraObs) {
-          // Ball: visible only if camera detected it
-          if (cameraObs.ball) {
-            worldState.ball.visible = true;
-            worldState.ball.distance = cameraObs.ball.distance;
-            worldState.ball.angle_deg = cameraObs.ball.angle_deg;
-            visionSource.ball = 'camera';
-          } else {
-            // Camera missed ball: fallback to physics unless strict camera mode is enabled.
-            if (this.cameraStrictMode) {
-              worldState.ball.visible = false;
-              visionSource.ball = 'none';
-            } else {
-              worldState.ball = physicsBall;
-              visionSource.ball = 'physics_fallback';
-            }
-          }
-          
-          // Blue goal: visible only if camera detected it
-          if (cameraObs.goal_blue) {
-            worldState.goal_blue.visible = true;
-            worldState.goal_blue.distance = cameraObs.goal_blue.distance;
-            worldState.goal_blue.angle_deg = cameraObs.goal_blue.angle_deg;
-            visionSource.goal_blue = 'camera';
-          } else {
-            if (this.cameraStrictMode) {
-              worldState.goal_blue.visible = false;
-              visionSource.goal_blue = 'none';
-            } else {
-              worldState.goal_blue = physicsBlueGoal;
-              visionSource.goal_blue = 'physics_fallback';
-            }
-          }
-          
-          // Yellow goal: visible only if camera detected it
-          if (cameraObs.goal_yellow) {
-            worldState.goal_yellow.visible = true;
-            worldState.goal_yellow.distance = cameraObs.goal_yellow.distance;
-            worldState.goal_yellow.angle_deg = cameraObs.goal_yellow.angle_deg;
-            visionSource.goal_yellow = 'camera';
-          } else {
-            if (this.cameraStrictMode) {
-              worldState.goal_yellow.visible = false;
-              visionSource.goal_yellow = 'none';
-            } else {
-              worldState.goal_yellow = physicsYellowGoal;
-              visionSource.goal_yellow = 'physics_fallback';
-            }
-          }
-        } else {
-          if (this.cameraStrictMode) {
-            // Camera hasn't run yet for this robot.
-            worldState.ball.visible = false;
-            worldState.goal_blue.visible = false;
-            worldState.goal_yellow.visible = false;
-            visionSource.ball = 'none';
-            visionSource.goal_blue = 'none';
-            visionSource.goal_yellow = 'none';
-          } else {
-            // Hybrid mode: keep physics observations until camera provides data.
-            worldState.ball = physicsBall;
-            worldState.goal_blue = physicsBlueGoal;
-            worldState.goal_yellow = physicsYellowGoal;
-            visionSource.ball = 'physics_no_camera';
-            visionSource.goal_blue = 'physics_no_camera';
-            visionSource.goal_yellow = 'physics_no_camera';
-          }
+      // Between control ticks the robot keeps driving with its last motor command (zero-order hold).
+      // Delayed sensors still take their readings every step.
+      if (!isDue(loop.nextControlMs, simTimeMs)) {
+        if (this.sensorPipeline.isDelayed(id)) {
+          const reading = this.senseWorldState(id, physicsState, loop.controlPeriodMs / 1000, robot.team === 'blue', false);
+          this.sensorPipeline.record(id, simTimeMs, reading);
         }
+        const kicked = this.driveRobot(id, loop.heldAction, simTimeMs, deltaMs);
+        this.matchStats.recordRobotTick(id, robot.team, loop.heldAction, kicked);
+        continue;
+      }
+      const controlPeriodMs = loop.lastControlMs === null ? loop.controlPeriodMs : simTimeMs - loop.lastControlMs;
+      loop.lastControlMs = simTimeMs;
+      loop.nextControlMs = nextDue(loop.nextControlMs, loop.controlPeriodMs, simTimeMs);
+
+      const worldState = this.senseWorldState(id, physicsState, controlPeriodMs / 1000, robot.team === 'blue', isFirstRobot);
+      this.sensorPipeline.record(id, simTimeMs, worldState);
+      this.sensorPipeline.apply(id, simTimeMs, worldState);
+      worldState.inbox = this.comms.receive(id, simTimeMs);
+
+      // Between camera frames the strategy sees the previous frame's ball and goals
+      if (isDue(loop.nextCameraMs, simTimeMs) || !loop.heldVision) {
+        loop.heldVision = {
+          ball: { ...worldState.ball },
+          goal_blue: { ...worldState.goal_blue },
+          goal_yellow: { ...worldState.goal_yellow },
+        };
+        loop.nextCameraMs = nextDue(loop.nextCameraMs, loop.cameraPeriodMs, simTimeMs);
       } else {
-        // physics mode selected - use physics-based observations directly
-        // worldState already contains physics observations from ObservationSystem
-        if (id === robots.keys().next().value) {
-          console.log(`[SimEngine] Using physics data - ball visible=${worldState.ball.visible}`);
-        }
+        worldState.ball = { ...loop.heldVision.ball };
+        worldState.goal_blue = { ...loop.heldVision.goal_blue };
+        worldState.goal_yellow = { ...loop.heldVision.goal_yellow };
       }
-      // If using physics mode, worldState remains from ObservationSystem
-      (worldState as any).vision_source = visionSource;
 
       // Line crossing penalties disabled - robots can move freely
       // The checkLineCrossings call is disabled to allow free movement
@@ -559,8 +829,14 @@ export class SimulationEngine {
       //   this.checkLineCrossings(id, robotState.x, robotState.y);
       // }
 
+      // Scenario fault injection: overwrite sensor readings before the strategy sees them
+      this.sensorOverride?.(id, worldState);
+
       // Execute strategy (now using camera-based observations)
-      const { action, state, target, mentalMap } = this.strategyExecutor.executeStrategy(id, worldState);
+      const { action, state, target, mentalMap } = this.strategyHost.executeStrategy(id, worldState);
+      if (action.send !== undefined) {
+        this.comms.send(id, action.send, simTimeMs, worldState.t_ms);
+      }
       
       // Store state and target for display
       if (state) {
@@ -577,8 +853,17 @@ export class SimulationEngine {
         (worldState as any).mentalMap = mentalMap;
       }
       
-      // Apply action to physics
-      this.physics.applyAction(id, action);
+      // Apply action to physics; held until the next control tick, without repeating kick and message
+      const kicked = this.driveRobot(id, action, simTimeMs, deltaMs);
+      this.matchStats.recordRobotTick(id, robot.team, action, kicked);
+      const { send, ...held } = action;
+      loop.heldAction = { ...held, kick: false };
+
+      if (this.recorder || this.onRobotFrame) {
+        const frame: ReplayRobotFrame = { worldState, action, state: state ?? null, target: target ?? null };
+        this.tickRobotFrames[id] = frame;
+        this.onRobotFrame?.(id, frame);
+      }
 
       this.recordStrategyTrace(id, worldState, action, state, target);
     }
@@ -587,6 +872,7 @@ export class SimulationEngine {
 
     // Step physics (use scaled delta for faster physics at higher speeds)
     this.physics.step(deltaMs);
+    this.matchStats.recordTick(this.getSimulationState(), deltaMs);
 
     // Update referee (check for lack of progress, etc.)
     // Use unscaled time so lack of progress detection isn't affected by speed multiplier
@@ -597,6 +883,162 @@ export class SimulationEngine {
     this.checkBallUnreachable(unscaledDeltaMs, physicsState.ball);
   }
 
+  // Apply a robot's action for one step. The kicker model decides whether the plunger is out and
+  // how hard it kicks; returns true if it hit the ball.
+  private driveRobot(id: string, action: Action, simTimeMs: number, deltaMs: number): boolean {
+    const strength = this.kickers.command(id, action, simTimeMs);
+    const kicked = this.physics.applyAction(id, { ...action, kick: strength > 0, kick_power: strength }, deltaMs);
+    if (kicked) this.kickers.hit(id);
+    return kicked;
+  }
+
+  // Observations of a robot's sensors this step: physics, or the camera pipeline's detections
+  // depending on the perception mode, with the sensor noise profile's errors
+  private senseWorldState(
+    id: string,
+    physicsState: PhysicsState,
+    deltaS: number,
+    isBlueTeam: boolean,
+    logDebug: boolean
+  ): WorldState {
+    // Calculate world state for this robot (base observations from physics)
+    const worldState = this.observationSystem.calculateWorldState(
+      id,
+      physicsState,
+      this.gameState.time_elapsed_ms,
+      deltaS,
+      isBlueTeam,
+      this.lineSensors.get(id) ?? DEFAULT_LINE_SENSOR_CONFIG
+    );
+
+    // Log physics observations before override
+    const physicsBall = { ...worldState.ball };
+    const physicsBlueGoal = { ...worldState.goal_blue };
+    const physicsYellowGoal = { ...worldState.goal_yellow };
+    const visionSource = {
+      ball: 'physics',
+      goal_blue: 'physics',
+      goal_yellow: 'physics',
+    };
+
+    if (logDebug) {
+      this.debugLog(`[SimEngine] Robot ${id}: perceptionMode=${this.perceptionMode}`);
+      this.debugLog(`[SimEngine] Physics ball: visible=${worldState.ball.visible}, distance=${worldState.ball.distance.toFixed(1)}, angle=${worldState.ball.angle_deg.toFixed(1)}`);
+    }
+    
+    // Conditionally override with camera-based observations or use physics data
+    const useCameraData = this.perceptionMode !== 'physics';
+    if (useCameraData) {
+      // Use camera-based observations (strategies use camera calculations)
+      // Camera observations map only contains detected objects (undetected objects are not in the map)
+      const cameraObs = this.cameraObservations.get(id);
+      
+      if (logDebug) {
+        this.debugLog(`[SimEngine] Camera obs exists:`, !!cameraObs);
+        if (cameraObs) {
+          this.debugLog(`[SimEngine] Camera ball:`, cameraObs.ball ? `visible, dist=${cameraObs.ball.distance.toFixed(1)}` : 'not detected');
+        }
+      }
+      
+      // Override ball observation with camera data (if camera has run for this robot)
+      if (cameraObs) {
+        // Ball: visible only if camera detected it
+        if (cameraObs.ball) {
+          worldState.ball.visible = true;
+          worldState.ball.distance = cameraObs.ball.distance;
+          worldState.ball.angle_deg = cameraObs.ball.angle_deg;
+          visionSource.ball = 'camera';
+        } else {
+          // Camera missed ball: fallback to physics unless strict camera mode is enabled.
+          if (this.cameraStrictMode) {
+            worldState.ball.visible = false;
+            visionSource.ball = 'none';
+          } else {
+            worldState.ball = physicsBall;
+            visionSource.ball = 'physics_fallback';
+          }
+        }
+        
+        // Blue goal: visible only if camera detected it
+        if (cameraObs.goal_blue) {
+          worldState.goal_blue.visible = true;
+          worldState.goal_blue.distance = cameraObs.goal_blue.distance;
+          worldState.goal_blue.angle_deg = cameraObs.goal_blue.angle_deg;
+          visionSource.goal_blue = 'camera';
+        } else {
+          if (this.cameraStrictMode) {
+            worldState.goal_blue.visible = false;
+            visionSource.goal_blue = 'none';
+          } else {
+            worldState.goal_blue = physicsBlueGoal;
+            visionSource.goal_blue = 'physics_fallback';
+          }
+        }
+        
+        // Yellow goal: visible only if camera detected it
+        if (cameraObs.goal_yellow) {
+          worldState.goal_yellow.visible = true;
+          worldState.goal_yellow.distance = cameraObs.goal_yellow.distance;
+          worldState.goal_yellow.angle_deg = cameraObs.goal_yellow.angle_deg;
+          visionSource.goal_yellow = 'camera';
+        } else {
+          if (this.cameraStrictMode) {
+            worldState.goal_yellow.visible = false;
+            visionSource.goal_yellow = 'none';
+          } else {
+            worldState.goal_yellow = physicsYellowGoal;
+            visionSource.goal_yellow = 'physics_fallback';
+          }
+        }
+      } else {
+        if (this.cameraStrictMode) {
+          // Camera hasn't run yet for this robot.
+          worldState.ball.visible = false;
+          worldState.goal_blue.visible = false;
+          worldState.goal_yellow.visible = false;
+          visionSource.ball = 'none';
+          visionSource.goal_blue = 'none';
+          visionSource.goal_yellow = 'none';
+        } else {
+          // Hybrid mode: keep physics observations until camera provides data.
+          worldState.ball = physicsBall;
+          worldState.goal_blue = physicsBlueGoal;
+          worldState.goal_yellow = physicsYellowGoal;
+          visionSource.ball = 'physics_no_camera';
+          visionSource.goal_blue = 'physics_no_camera';
+          visionSource.goal_yellow = 'physics_no_camera';
+        }
+      }
+    } else {
+      // physics mode selected - use physics-based observations directly
+      // worldState already contains physics observations from ObservationSystem
+      if (logDebug) {
+        this.debugLog(`[SimEngine] Using physics data - ball visible=${worldState.ball.visible}`);
+      }
+    }
+    // If using physics mode, worldState remains from ObservationSystem
+    (worldState as any).vision_source = visionSource;
+
+    const pose = physicsState.robots.get(id);
+    if (pose) {
+      worldState.range_cm = readRangeSensors(this.physics, id, pose, this.rangeSensors.get(id) ?? [], this.rng);
+      const lightGate = this.lightGates.get(id) ?? DEFAULT_LIGHT_GATE_CONFIG;
+      worldState.ball_captured = readLightGate(pose, physicsState.ball, lightGate, this.rng);
+    }
+    worldState.ball_held = this.physics.isBallHeld(id);
+    worldState.kicker_ready = this.kickers.isReady(id, this.tickCount * this.getFixedStepMs());
+    this.imu.read(id, worldState);
+    applySensorNoise(
+      worldState,
+      this.sensorNoise,
+      this.rng,
+      this.perceptionMode === 'physics',
+      physicsState.ball,
+      this.lineSensors.get(id) ?? DEFAULT_LINE_SENSOR_CONFIG
+    );
+    return worldState;
+  }
+
   private recordStrategyTrace(
     robotId: string,
     worldState: WorldState,
@@ -621,6 +1063,9 @@ export class SimulationEngine {
         left: worldState.bumper_left,
         right: worldState.bumper_right,
       },
+      ball_captured: worldState.ball_captured,
+      ball_held: worldState.ball_held,
+      kicker_ready: worldState.kicker_ready,
       lines: {
         front: worldState.line_front,
         left: worldState.line_left,
@@ -649,6 +1094,8 @@ export class SimulationEngine {
         motor3: action.motor3,
         motor4: action.motor4,
         kick: action.kick,
+        kick_power: action.kick_power ?? 1,
+        dribbler: action.dribbler ?? 0,
       },
     });
   }
@@ -690,7 +1137,7 @@ export class SimulationEngine {
       this.gameState.phase = GamePhase.Playing;
       this.gameState.countdown_ms = 0;
       
-      this.onGameEvent?.('play_resumed', {});
+      this.emitGameEvent('play_resumed', {});
     }
   }
 
@@ -702,7 +1149,7 @@ export class SimulationEngine {
       // Reset to kickoff
       this.resetPositions();
       this.gameState.phase = GamePhase.Kickoff;
-      this.gameState.countdown_ms = TIMING.KICKOFF_COUNTDOWN;
+      this.gameState.countdown_ms = this.rules.kickoffCountdownMs;
     }
   }
 
@@ -711,13 +1158,13 @@ export class SimulationEngine {
     this.gameState.countdown_ms -= deltaMs;
 
     if (this.gameState.countdown_ms <= 0) {
-      // Start second half
-      this.gameState.half = 2;
+      // Start the next half (or the golden goal period)
+      this.gameState.half++;
       this.gameState.time_elapsed_ms = 0;
       this.gameState.kickoff_team = this.gameState.kickoff_team === 'blue' ? 'yellow' : 'blue';
       this.resetPositions();
       this.gameState.phase = GamePhase.Kickoff;
-      this.gameState.countdown_ms = TIMING.KICKOFF_COUNTDOWN;
+      this.gameState.countdown_ms = this.rules.kickoffCountdownMs;
     }
   }
 
@@ -728,6 +1175,7 @@ export class SimulationEngine {
     this.isRunning = true;
     this.gameState.paused = false;
     this.lastUpdateTime = 0;
+    this.accumulatorMs = 0;
     this.animationFrameId = requestAnimationFrame(this.gameLoop);
   }
 
@@ -761,6 +1209,13 @@ export class SimulationEngine {
   reset(): void {
     this.pause();
     this.physics.reset();
+
+    // Restart the random sequence so a reset run replays identically
+    this.rng.reseed(this.rng.getSeed());
+    this.tickCount = 0;
+    this.referee.reset();
+    this.observationSystem.reset();
+    this.kickers.reset();
     
     // Reset penalty tracking
     this.consecutiveLineCrossings.clear();
@@ -771,6 +1226,10 @@ export class SimulationEngine {
     // Reset ball tracking
     this.ballStuckTime = 0;
     this.ballLastPosition = null;
+    this.lastTouchRobotId = null;
+    this.timeline.clear();
+    this.matchStats.reset();
+    this.comms.reset();
     
     this.gameState = {
       mode: this.config.mode,
@@ -788,8 +1247,9 @@ export class SimulationEngine {
     this.createRobots();
     this.resetPositions();
     this.gameState.phase = GamePhase.Kickoff;
-    this.gameState.countdown_ms = TIMING.KICKOFF_COUNTDOWN;
+    this.gameState.countdown_ms = this.rules.kickoffCountdownMs;
 
+    this.beginRecording();
     this.onStateUpdate?.(this.getSimulationState());
   }
 
@@ -831,9 +1291,9 @@ export class SimulationEngine {
     }
     
     // Log penalty
-    console.log(`[Penalty] Robot ${robotId} removed from play for ${this.PENALTY_DURATION_MS / 1000}s for repeated line crossings`);
+    this.debugLog(`[Penalty] Robot ${robotId} removed from play for ${this.PENALTY_DURATION_MS / 1000}s for repeated line crossings`);
     
-    this.onGameEvent?.('robot_penalty', { robotId, duration: this.PENALTY_DURATION_MS });
+    this.emitGameEvent('robot_penalty', { duration_ms: this.PENALTY_DURATION_MS }, [robotId]);
   }
 
   // Update penalties (check if any have expired and restore robots)
@@ -847,7 +1307,7 @@ export class SimulationEngine {
       // Check if robot exists in physics
       if (!robots.has(robotId)) {
         // Restore at starting position
-        const startingPos = this.getStartingPosition(savedState.team, savedState.role);
+        const startingPos = this.getStartingPosition(robotId);
         this.physics.createRobot(
           robotId,
           savedState.team,
@@ -856,12 +1316,12 @@ export class SimulationEngine {
           startingPos.y,
           startingPos.angle
         );
-        console.log(`[Penalty] Robot ${robotId} restored to play (penalties disabled)`);
+        this.debugLog(`[Penalty] Robot ${robotId} restored to play (penalties disabled)`);
       }
       
       this.penaltyRobotStates.delete(robotId);
       this.penaltyEndTimes.delete(robotId);
-      this.onGameEvent?.('robot_penalty_expired', { robotId });
+      this.emitGameEvent('robot_penalty_expired', {}, [robotId]);
     }
     
     // Clear all penalty tracking
@@ -918,7 +1378,7 @@ export class SimulationEngine {
       
       if (inOuterArea || inCorner) {
         // Ball is stuck in unreachable area - trigger reset
-        console.log(`[Ball Unreachable] Ball stuck at (${ballState.x.toFixed(1)}, ${ballState.y.toFixed(1)}) for ${(this.ballStuckTime / 1000).toFixed(1)}s`);
+        this.debugLog(`[Ball Unreachable] Ball stuck at (${ballState.x.toFixed(1)}, ${ballState.y.toFixed(1)}) for ${(this.ballStuckTime / 1000).toFixed(1)}s`);
         this.resetMatch();
         this.ballStuckTime = 0;
         this.ballLastPosition = null;
@@ -930,7 +1390,7 @@ export class SimulationEngine {
   resetMatch(): void {
     // Restore any penalized robots at starting positions before resetting positions
     for (const [robotId, savedState] of this.penaltyRobotStates.entries()) {
-      const startingPos = this.getStartingPosition(savedState.team, savedState.role);
+      const startingPos = this.getStartingPosition(robotId);
       this.physics.createRobot(
         robotId,
         savedState.team,
@@ -954,17 +1414,17 @@ export class SimulationEngine {
     this.ballStuckTime = 0;
     this.ballLastPosition = null;
     
-    // Reset state machines when robots are artificially moved
-    this.resetStrategyStates();
+    // Sensors and control loops restart from the new poses
+    this.resetRobotTracking();
     
     // If paused, resume to kickoff
     if (this.gameState.phase === GamePhase.Playing || this.gameState.phase === GamePhase.Paused) {
       this.gameState.phase = GamePhase.Kickoff;
-      this.gameState.countdown_ms = TIMING.KICKOFF_COUNTDOWN;
+      this.gameState.countdown_ms = this.rules.kickoffCountdownMs;
       this.physics.setOutOfBoundsCheckEnabled(false);
     }
     
-    this.onGameEvent?.('match_reset', {});
+    this.emitGameEvent('match_reset', {});
     this.onStateUpdate?.(this.getSimulationState());
   }
 
@@ -995,7 +1455,7 @@ export class SimulationEngine {
     // Get penalized robots (removed from physics but still tracked)
     const penalizedRobotStates = Array.from(this.penaltyRobotStates.entries()).map(([id, savedState]) => {
       const penaltyTimeRemaining = this.getPenaltyTimeRemaining(id);
-      const startingPos = this.getStartingPosition(savedState.team, savedState.role);
+      const startingPos = this.getStartingPosition(id);
       
       return {
         id,
@@ -1019,10 +1479,129 @@ export class SimulationEngine {
       game: { ...this.gameState },
       robots: allRobotStates,
       ball: { ...physicsState.ball },
+      tick: this.tickCount,
       timestamp: Date.now(),
     };
   }
 
+  // Hash of the current simulated state - equal across runs with the same seed and strategies
+  getStateHash(): string {
+    return hashSimulationState(this.getSimulationState());
+  }
+
+  // Seed of the current run (share it to reproduce a run)
+  getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  // Seeded generator for anything that needs randomness alongside the simulation (e.g. randomized scenarios)
+  getRandom(): SeededRandom {
+    return this.rng;
+  }
+
+  // Capture the complete simulation state: physics bodies and velocities, game state, penalties,
+  // timers, camera observations, the random sequence position and every strategy's variables
+  saveSnapshot(): SimulationSnapshot {
+    const snapshot: SimulationSnapshot = {
+      version: SNAPSHOT_VERSION,
+      config: { ...this.config },
+      gameState: { ...this.gameState },
+      tick: this.tickCount,
+      rng: { seed: this.rng.getSeed(), state: this.rng.getState() },
+      perceptionMode: this.perceptionMode,
+      sensorNoise: this.sensorNoise,
+      physics: this.physics.saveSnapshot(),
+      referee: this.referee.saveSnapshot(),
+      sensorPositions: this.observationSystem.saveSnapshot(),
+      penalties: {
+        consecutiveLineCrossings: Array.from(this.consecutiveLineCrossings),
+        penaltyEndTimes: Array.from(this.penaltyEndTimes),
+        lastLineCrossingTime: Array.from(this.lastLineCrossingTime),
+        penaltyRobotStates: Array.from(this.penaltyRobotStates),
+      },
+      ballTracking: {
+        ballLastPosition: this.ballLastPosition ? { ...this.ballLastPosition } : null,
+        ballStuckTime: this.ballStuckTime,
+        lastTouchRobotId: this.lastTouchRobotId,
+      },
+      timeline: this.timeline.getEvents(),
+      matchStats: this.matchStats.saveSnapshot(),
+      comms: this.comms.saveSnapshot(),
+      robotStates: Array.from(this.robotStates),
+      robotTargets: Array.from(this.robotTargets),
+      robotMentalMaps: Array.from(this.robotMentalMaps),
+      robotLoops: Array.from(this.robotLoops),
+      sensorSamples: this.sensorPipeline.saveSnapshot(),
+      imu: this.imu.saveSnapshot(),
+      kickers: this.kickers.saveSnapshot(),
+      cameraObservations: Array.from(this.cameraObservations),
+      strategies: this.strategyHost.saveSnapshot(),
+    };
+    // Detach from live objects (mental maps are mutated by strategies every tick)
+    return JSON.parse(JSON.stringify(snapshot));
+  }
+
+  // Restore a snapshot from saveSnapshot(). Strategies resume with their saved variables - they are
+  // not reset - so the match continues exactly where it was frozen.
+  loadSnapshot(snapshot: SimulationSnapshot): void {
+    if (snapshot.version > SNAPSHOT_VERSION) {
+      throw new Error(`Snapshot version ${snapshot.version} is newer than supported (${SNAPSHOT_VERSION})`);
+    }
+    const saved: SimulationSnapshot = JSON.parse(JSON.stringify(snapshot));
+
+    checkFixedStepMs(saved.config.fixedStepMs);
+    this.config = saved.config;
+    this.roster = resolveRoster(saved.config);
+    this.applyRules(resolveMatchRules(saved.config.rules));
+    this.applyStrategyConfig(saved.config);
+    this.comms.configure(this.roster, resolveCommsConfig(saved.config.comms));
+    this.sensorPipeline.configure(this.roster, saved.config.sensorLatency);
+    this.imu.configure(this.roster, saved.config.imu);
+    this.kickers.configure(this.roster, saved.config.kicker);
+    this.physics.configureDrives(resolveRosterDrives(this.roster, saved.config.drive));
+    this.rangeSensors = resolveRosterRangeSensors(this.roster, saved.config.rangeSensors);
+    this.lineSensors = resolveRosterLineSensors(this.roster, saved.config.lineSensors);
+    this.lightGates = resolveRosterLightGates(this.roster, saved.config.lightGate);
+    this.gameState = { ...saved.gameState, paused: !this.isRunning };
+    this.tickCount = saved.tick;
+    this.accumulatorMs = 0;
+    this.rng.reseed(saved.rng.seed);
+    this.rng.setState(saved.rng.state);
+    this.perceptionMode = saved.perceptionMode;
+    this.sensorNoise = saved.sensorNoise;
+
+    // Rebuild the static world (this engine may never have been initialized), then place the bodies
+    this.physics.initialize();
+    this.physics.loadSnapshot(saved.physics);
+    this.referee.loadSnapshot(saved.referee);
+    this.observationSystem.loadSnapshot(saved.sensorPositions);
+
+    this.consecutiveLineCrossings = new Map(saved.penalties.consecutiveLineCrossings);
+    this.penaltyEndTimes = new Map(saved.penalties.penaltyEndTimes);
+    this.lastLineCrossingTime = new Map(saved.penalties.lastLineCrossingTime);
+    this.penaltyRobotStates = new Map(saved.penalties.penaltyRobotStates);
+    this.ballLastPosition = saved.ballTracking.ballLastPosition;
+    this.ballStuckTime = saved.ballTracking.ballStuckTime;
+    this.lastTouchRobotId = saved.ballTracking.lastTouchRobotId;
+    this.timeline.loadEvents(saved.timeline);
+    this.matchStats.loadSnapshot(saved.matchStats);
+    this.comms.loadSnapshot(saved.comms);
+
+    this.robotStates = new Map(saved.robotStates);
+    this.robotTargets = new Map(saved.robotTargets);
+    this.robotMentalMaps = new Map(saved.robotMentalMaps);
+    this.robotLoops = new Map(saved.robotLoops);
+    this.sensorPipeline.loadSnapshot(saved.sensorSamples);
+    this.imu.loadSnapshot(saved.imu);
+    this.kickers.loadSnapshot(saved.kickers);
+    this.cameraObservations = new Map(saved.cameraObservations);
+
+    this.strategyHost.loadSnapshot(saved.strategies);
+
+    this.beginRecording();
+    this.onStateUpdate?.(this.getSimulationState());
+  }
+
   // Get score
   getScore(): { blue: number; yellow: number } {
     return {
@@ -1037,19 +1616,42 @@ export class SimulationEngine {
     this.onStateUpdate?.(this.getSimulationState());
   }
 
+  // Set ball velocity in cm/s (scenario setup)
+  setBallVelocity(vx: number, vy: number): void {
+    this.physics.setBallVelocity(vx, vy);
+  }
+
   // Set robot position (for drag and drop)
   setRobotPosition(id: string, x: number, y: number, angle?: number): void {
     this.physics.setRobotPosition(id, x, y, angle);
     
-    // Reset state machines when robots are artificially moved
-    this.resetStrategyStates();
+    // Sensors and control loops restart from the new poses
+    this.resetRobotTracking();
     
     this.onStateUpdate?.(this.getSimulationState());
   }
 
-  // Update strategy code for a robot
+  // Update strategy code for a robot (kept when strategies are reloaded after a reset)
   updateStrategy(robotId: string, code: string): void {
-    this.strategyExecutor.loadStrategy(robotId, code);
+    const robot = this.roster.find((r) => r.id === robotId);
+    if (robot) {
+      robot.strategy = code;
+    }
+    this.strategyHost.loadStrategy(robotId, code);
+  }
+
+  // Time use and last error of a robot's strategy (a disabled strategy explains why in the error)
+  getStrategyStatus(robotId: string): StrategyStatus {
+    return {
+      budgetMs: this.strategyHost.getTimeBudget(),
+      timing: this.strategyHost.getTiming(robotId),
+      error: this.strategyHost.getError(robotId),
+    };
+  }
+
+  // Robots in play with their start poses and strategies
+  getRoster(): RosterRobot[] {
+    return this.roster.map((robot) => ({ ...robot, start: { ...robot.start } }));
   }
 
   // Set callbacks
@@ -1057,11 +1659,92 @@ export class SimulationEngine {
     this.onStateUpdate = callback;
   }
 
-  setOnGameEvent(callback: (event: string, data?: any) => void): void {
-    this.onGameEvent = callback;
+  // Subscribe to typed game events (subscriptions survive initialize() and reset())
+  getEventBus(): GameEventBus {
+    return this.eventBus;
+  }
+
+  // Statistics of the current match (reset by initialize() and reset())
+  getMatchStats(): MatchStats {
+    return this.matchStats;
+  }
+
+  // Teammate message counts of the current match (reset by initialize() and reset())
+  getCommsStats(): Record<Team, CommsStats> {
+    return this.comms.getStats();
   }
 
-  // Get world states for all active robots
+  // Ordered game events of the current match (cleared by initialize() and reset())
+  getTimeline(): MatchTimeline {
+    return this.timeline;
+  }
+
+  // Called for every robot whose strategy ran this tick, with its input and output
+  setOnRobotFrame(callback: ((robotId: string, frame: ReplayRobotFrame) => void) | null): void {
+    this.onRobotFrame = callback;
+  }
+
+  // Mutates each robot's WorldState right before its strategy runs (pass null to remove)
+  setSensorOverride(override: ((robotId: string, worldState: WorldState) => void) | null): void {
+    this.sensorOverride = override;
+  }
+
+  // Single funnel for game events: timeline, recorder and subscribers all see the same event
+  private emitGameEvent<T extends GameEventType>(type: T, data: GameEventData<T>, robots: string[] = []): void {
+    const ball = this.physics.getState().ball;
+    const event = {
+      ...data,
+      type,
+      tick: this.tickCount,
+      sim_time_ms: this.tickCount * this.getFixedStepMs(),
+      half: this.gameState.half,
+      time_elapsed_ms: this.gameState.time_elapsed_ms,
+      robots,
+      ball: { x: ball.x, y: ball.y },
+    } as GameEvent;
+    this.timeline.add(event);
+    this.recorder?.recordEvent(event);
+    this.eventBus.emit(event);
+  }
+
+  private lastTouchRobots(): string[] {
+    return this.lastTouchRobotId ? [this.lastTouchRobotId] : [];
+  }
+
+  private robotsNearBall(radiusCm: number): string[] {
+    const physicsState = this.physics.getState();
+    const ids: string[] = [];
+    for (const [id, robot] of physicsState.robots) {
+      if (Math.hypot(robot.x - physicsState.ball.x, robot.y - physicsState.ball.y) <= radiusCm) {
+        ids.push(id);
+      }
+    }
+    return ids;
+  }
+
+  // Record every tick (state, per-robot strategy input/output, events) into the recorder.
+  // The recording restarts on initialize() and reset(); pass null to stop recording.
+  setRecorder(recorder: MatchRecorder | null): void {
+    this.recorder = recorder;
+    this.beginRecording();
+  }
+
+  getRecorder(): MatchRecorder | null {
+    return this.recorder;
+  }
+
+  private beginRecording(): void {
+    this.recorder?.begin({
+      seed: this.rng.getSeed(),
+      mode: this.config.mode,
+      fixedStepMs: this.getFixedStepMs(),
+      perceptionMode: this.perceptionMode,
+      rules: this.rules,
+    });
+  }
+
+  // Get world states for all active robots, for display: reading them changes nothing the
+  // simulation uses (no random draws, no sensor history)
   getWorldStates(): Map<string, WorldState> {
     const worldStates = new Map<string, WorldState>();
     const physicsState = this.physics.getState();
@@ -1073,8 +1756,18 @@ export class SimulationEngine {
         physicsState,
         this.gameState.time_elapsed_ms,
         0.016, // Approximate delta for display
-        robot.team === 'blue'
+        robot.team === 'blue',
+        this.lineSensors.get(id) ?? DEFAULT_LINE_SENSOR_CONFIG,
+        true
       );
+      this.imu.read(id, worldState);
+      const pose = physicsState.robots.get(id);
+      if (pose) {
+        worldState.range_cm = readRangeSensors(this.physics, id, pose, this.rangeSensors.get(id) ?? []);
+        worldState.ball_captured = readLightGate(pose, physicsState.ball, this.lightGates.get(id) ?? DEFAULT_LIGHT_GATE_CONFIG);
+      }
+      worldState.ball_held = this.physics.isBallHeld(id);
+      worldState.kicker_ready = this.kickers.isReady(id, this.tickCount * this.getFixedStepMs());
       
       // Store physics-based observations before overriding
       const physicsObs = {
@@ -1125,6 +1818,9 @@ export class SimulationEngine {
       if (storedMentalMap) {
         (worldState as any).mentalMap = storedMentalMap;
       }
+
+      // Show the last messages received (the inbox itself is only filled for the strategy)
+      worldState.inbox = this.comms.getLastReceived(id);
       
       worldStates.set(id, worldState);
     }
@@ -1184,9 +1880,31 @@ export class SimulationEngine {
     return this.perceptionMode;
   }
 
+  // Set the errors of every robot's sensor readings (e.g. a preset from SENSOR_NOISE_PRESETS)
+  setSensorNoise(profile: SensorNoiseProfile): void {
+    this.sensorNoise = profile;
+  }
+
+  getSensorNoise(): SensorNoiseProfile {
+    return this.sensorNoise;
+  }
+
+  // Enable/disable diagnostic console logging (disable for headless batch runs)
+  setDebugLogging(enabled: boolean): void {
+    this.debugLogging = enabled;
+    this.observationSystem.setDebugLogging(enabled);
+  }
+
+  private debugLog(...args: unknown[]): void {
+    if (this.debugLogging) {
+      console.log(...args);
+    }
+  }
+
   // Dispose
   dispose(): void {
     this.pause();
     this.physics.dispose();
+    this.strategyHost.dispose();
   }
 }
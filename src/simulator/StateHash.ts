@@ -0,0 +1,37 @@
+// ============================================================
+// RoboCup Jr. Simulator - Simulation State Hashing
+// ============================================================
+
+import { SimulationState } from '../types';
+
+// 53-bit string hash (cyrb53). Not cryptographic - only used to compare runs.
+export function hashString(str: string, seed: number = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(16).padStart(14, '0');
+}
+
+// Hash everything that defines the simulated world at a tick.
+// The wall-clock timestamp is excluded so two runs of the same seed hash identically.
+// Floats are serialized with full precision, so any bit-level divergence changes the hash.
+export function hashSimulationState(state: SimulationState): string {
+  const { timestamp, ...simulated } = state;
+  return hashString(JSON.stringify(simulated));
+}
+
+// Index of the first tick where two hash sequences differ, or -1 if they match
+export function findFirstDivergence(a: readonly string[], b: readonly string[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return a.length === b.length ? -1 : length;
+}
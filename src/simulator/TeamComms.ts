@@ -0,0 +1,160 @@
+// ============================================================
+// RoboCup Jr. Simulator - Teammate Communication
+// ============================================================
+
+import { CommsConfig, RosterRobot, Team, TeamMessage } from '../types';
+import { DEFAULT_COMMS_CONFIG } from '../types/constants';
+import { SeededRandom } from './Random';
+
+// Message counts of one team
+export interface CommsStats {
+  sent: number;              // messages sent (each is addressed to every teammate)
+  delivered: number;         // deliveries to a teammate
+  lost: number;              // deliveries lost to dropRate
+  dropped_bandwidth: number; // messages not sent: over the bandwidth limit
+  dropped_invalid: number;   // messages not sent: not JSON-serializable or over maxMessageBytes
+}
+
+interface QueuedMessage {
+  deliverAtMs: number;
+  message: TeamMessage;
+}
+
+export interface TeamCommsSnapshot {
+  queues: [string, QueuedMessage[]][];
+  lastDeliveryMs: [string, number][];
+  bandwidth: [string, { bytes: number; updatedMs: number }][];
+  stats: Record<Team, CommsStats>;
+}
+
+const createStats = (): CommsStats => ({ sent: 0, delivered: 0, lost: 0, dropped_bandwidth: 0, dropped_invalid: 0 });
+
+// A sender may burst this much of a second's bandwidth at once (at least one full-size message)
+const BURST_SECONDS = 0.1;
+
+// Per-team broadcast link between teammates. A message sent by one robot is delivered to every
+// teammate after the team's latency plus jitter, unless it is lost. Randomness comes from the
+// simulation generator and is only drawn when messages are sent, so strategies that never send
+// don't change the random sequence.
+export class TeamComms {
+  private rng: SeededRandom;
+  private configs: Record<Team, CommsConfig> = { blue: DEFAULT_COMMS_CONFIG, yellow: DEFAULT_COMMS_CONFIG };
+  private teams: Map<string, Team> = new Map();
+  private queues: Map<string, QueuedMessage[]> = new Map();
+  private lastDeliveryMs: Map<string, number> = new Map();  // per sender -> recipient link, keeps order
+  private bandwidth: Map<string, { bytes: number; updatedMs: number }> = new Map();  // token bucket per sender
+  private stats: Record<Team, CommsStats> = { blue: createStats(), yellow: createStats() };
+  private lastReceived: Map<string, TeamMessage[]> = new Map();  // for display
+
+  constructor(rng: SeededRandom) {
+    this.rng = rng;
+  }
+
+  // Robots that can talk to each other, and the link of each team
+  configure(roster: RosterRobot[], configs: Record<Team, CommsConfig>): void {
+    this.teams = new Map(roster.map((robot) => [robot.id, robot.team]));
+    this.configs = configs;
+  }
+
+  // Queue a strategy's message for its teammates (nowMs: simulation time, tMs: the sender's t_ms)
+  send(from: string, data: unknown, nowMs: number, tMs: number): void {
+    const team = this.teams.get(from);
+    if (!team) return;
+    const config = this.configs[team];
+    const stats = this.stats[team];
+
+    let json: string | undefined;
+    try {
+      json = JSON.stringify(data);
+    } catch {
+      json = undefined;
+    }
+    const bytes = json === undefined ? Infinity : new TextEncoder().encode(json).length;
+    if (json === undefined || bytes > config.maxMessageBytes) {
+      stats.dropped_invalid++;
+      return;
+    }
+
+    // Token bucket: refills at the link rate, holds a short burst
+    const capacity = Math.max(config.maxMessageBytes, config.bandwidthBytesPerSec * BURST_SECONDS);
+    const bucket = this.bandwidth.get(from) ?? { bytes: capacity, updatedMs: nowMs };
+    bucket.bytes = Math.min(capacity, bucket.bytes + ((nowMs - bucket.updatedMs) / 1000) * config.bandwidthBytesPerSec);
+    bucket.updatedMs = nowMs;
+    this.bandwidth.set(from, bucket);
+    if (bucket.bytes < bytes) {
+      stats.dropped_bandwidth++;
+      return;
+    }
+    bucket.bytes -= bytes;
+    stats.sent++;
+
+    for (const [to, toTeam] of this.teams) {
+      if (to === from || toTeam !== team) continue;
+      const lost = this.rng.chance(config.dropRate);
+      const jitter = this.rng.range(0, config.jitterMs);
+      if (lost) {
+        stats.lost++;
+        continue;
+      }
+
+      const link = `${from}>${to}`;
+      const deliverAtMs = Math.max(nowMs + config.latencyMs + jitter, this.lastDeliveryMs.get(link) ?? 0);
+      this.lastDeliveryMs.set(link, deliverAtMs);
+      const queue = this.queues.get(to) ?? [];
+      queue.push({ deliverAtMs, message: { from, sent_ms: tMs, data: JSON.parse(json) } });
+      this.queues.set(to, queue);
+    }
+  }
+
+  // Messages for a robot that have arrived by nowMs, oldest first
+  receive(robotId: string, nowMs: number): TeamMessage[] {
+    const queue = this.queues.get(robotId);
+    if (!queue || queue.length === 0) return [];
+
+    const arrived = queue.filter((queued) => queued.deliverAtMs <= nowMs);
+    if (arrived.length === 0) return [];
+    this.queues.set(robotId, queue.filter((queued) => queued.deliverAtMs > nowMs));
+
+    const team = this.teams.get(robotId);
+    if (team) this.stats[team].delivered += arrived.length;
+    const messages = arrived.sort((a, b) => a.deliverAtMs - b.deliverAtMs).map((queued) => queued.message);
+    this.lastReceived.set(robotId, messages);
+    return messages;
+  }
+
+  // The most recent non-empty batch a robot received
+  getLastReceived(robotId: string): TeamMessage[] {
+    return this.lastReceived.get(robotId) ?? [];
+  }
+
+  getStats(): Record<Team, CommsStats> {
+    return { blue: { ...this.stats.blue }, yellow: { ...this.stats.yellow } };
+  }
+
+  // Drop messages in flight and counts (a new match)
+  reset(): void {
+    this.queues.clear();
+    this.lastDeliveryMs.clear();
+    this.bandwidth.clear();
+    this.lastReceived.clear();
+    this.stats = { blue: createStats(), yellow: createStats() };
+  }
+
+  saveSnapshot(): TeamCommsSnapshot {
+    return JSON.parse(JSON.stringify({
+      queues: Array.from(this.queues.entries()),
+      lastDeliveryMs: Array.from(this.lastDeliveryMs.entries()),
+      bandwidth: Array.from(this.bandwidth.entries()),
+      stats: this.stats,
+    }));
+  }
+
+  loadSnapshot(snapshot: TeamCommsSnapshot): void {
+    const saved: TeamCommsSnapshot = JSON.parse(JSON.stringify(snapshot));
+    this.queues = new Map(saved.queues);
+    this.lastDeliveryMs = new Map(saved.lastDeliveryMs);
+    this.bandwidth = new Map(saved.bandwidth);
+    this.lastReceived.clear();
+    this.stats = saved.stats;
+  }
+}
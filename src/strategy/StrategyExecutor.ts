@@ -3,39 +3,159 @@
 // ============================================================
 
 import { WorldState, Action, createDefaultAction } from '../types';
+import { StrategyHost, StrategyResult, BLOCKED_STRATEGY_GLOBALS, formatLogArgs } from './StrategyHost';
 
-export class StrategyExecutor {
-  private strategies: Map<string, Function> = new Map();
+// Saved strategy: its code plus the values of its top-level var/let variables
+export interface StrategySnapshot {
+  code: string;
+  variables: Record<string, unknown>;
+}
+
+// Compiled strategy: the strategy function plus accessors of its top-level var/let variables
+interface CompiledStrategy {
+  (worldState: WorldState): unknown;
+  __getVariables(): Record<string, unknown>;
+  __setVariables(values: Record<string, unknown>): void;
+}
+
+// Wall-clock time a strategy may use per tick (and for running its top-level code on load)
+export const DEFAULT_STRATEGY_TIME_BUDGET_MS = 20;
+
+// Loop iterations a strategy may run per tick (and on load) when its budget is counted in loop
+// iterations instead of time (see StrategyExecutor.setLoopBudget)
+export const DEFAULT_STRATEGY_LOOP_BUDGET = 1_000_000;
+
+// A strategy over budget in this many ticks in a row is disabled until its code is reloaded
+export const MAX_CONSECUTIVE_OVER_BUDGET_TICKS = 3;
+
+// How long a robot's strategy takes per tick
+export interface StrategyTiming {
+  lastTickMs: number;
+  overBudgetTicks: number;   // ticks over the time budget since its code was loaded
+  disabled: boolean;         // stopped for repeatedly exceeding the budget (see getError())
+}
+
+// Thrown by the loop guard to interrupt a strategy that used up its budget
+class StrategyTimeoutError extends Error {
+  constructor(budget: string) {
+    super(`Strategy exceeded its ${budget}`);
+    this.name = 'StrategyTimeoutError';
+  }
+}
+
+// Messages from log() in strategy code (default: the console, tagged with the robot)
+export type StrategyLogger = (robotId: string, message: string) => void;
+
+export const consoleLogger: StrategyLogger = (robotId, message) => console.log(`[${robotId}] ${message}`);
+
+// Runs strategies inline (in the calling thread). Strategy code only sees the documented helpers,
+// but this is not a security boundary - use WorkerStrategyHost for isolation.
+export class StrategyExecutor implements StrategyHost {
+  readonly isolation = 'inline' as const;
+  private strategies: Map<string, CompiledStrategy> = new Map();
   private errors: Map<string, string> = new Map();
+  private timings: Map<string, StrategyTiming & { consecutiveOverBudget: number }> = new Map();
+  private random: () => number;
+  private log: StrategyLogger;
+  private timeBudgetMs: number = DEFAULT_STRATEGY_TIME_BUDGET_MS;
+  private loopBudget: number | null = null; // null: the budget is wall-clock time
+
+  // Loops in strategy code call this every iteration; it throws once the running strategy's budget is up
+  private deadline: number = Infinity;
+  private loopsLeft: number = Infinity;
+  private readonly loopGuard = (): boolean => {
+    if (this.loopBudget !== null ? --this.loopsLeft < 0 : performance.now() > this.deadline) {
+      throw new StrategyTimeoutError(this.describeBudget());
+    }
+    return true;
+  };
+
+  // random: source for Math.random() inside strategies (the simulation's seeded generator)
+  constructor(random: () => number = Math.random, log: StrategyLogger = consoleLogger) {
+    this.random = random;
+    this.log = log;
+  }
+
+  setTimeBudget(ms: number): void {
+    if (!(ms > 0)) {
+      throw new Error(`Strategy time budget must be positive (got ${ms})`);
+    }
+    this.timeBudgetMs = ms;
+  }
+
+  getTimeBudget(): number {
+    return this.timeBudgetMs;
+  }
+
+  // Count the budget in loop iterations instead of wall-clock time (null: back to time). Whether a
+  // strategy is interrupted or disabled then depends only on its code and inputs, never on how fast
+  // the machine is, so seeded runs reproduce exactly. Slow code outside loops is not noticed at all.
+  setLoopBudget(iterations: number | null): void {
+    if (iterations !== null && !(iterations > 0)) {
+      throw new Error(`Strategy loop budget must be positive (got ${iterations})`);
+    }
+    this.loopBudget = iterations;
+  }
+
+  private describeBudget(): string {
+    return this.loopBudget !== null ? `${this.loopBudget} loop iteration budget` : `${this.timeBudgetMs} ms time budget`;
+  }
 
-  constructor() {}
+  // Start the budget of one strategy call
+  private startBudget(): void {
+    this.deadline = performance.now() + this.timeBudgetMs;
+    this.loopsLeft = this.loopBudget ?? Infinity;
+  }
+
+  private endBudget(): void {
+    this.deadline = Infinity;
+    this.loopsLeft = Infinity;
+  }
 
   // Load strategy code for a robot
   loadStrategy(robotId: string, code: string): boolean {
+    // New code gets a clean slate, even if the previous version was disabled. The same code again
+    // (the engine reloads strategies when the match is reset) keeps its time use and stays disabled.
+    const timing = this.timings.get(robotId);
+    const reload = timing !== undefined && this.strategyCodeMap.get(robotId) === code;
+    if (!reload) {
+      this.timings.set(robotId, { lastTickMs: 0, overBudgetTicks: 0, disabled: false, consecutiveOverBudget: 0 });
+    }
     try {
       // Store code for state extraction
       this.strategyCodeMap.set(robotId, code);
       
-      // Create a sandboxed function from the code
-      const strategyFunc = this.createSandboxedStrategy(code);
+      // Create a sandboxed function from the code (its top-level code runs under the budget too)
+      this.startBudget();
+      const strategyFunc = this.createSandboxedStrategy(robotId, code);
       this.strategies.set(robotId, strategyFunc);
-      this.errors.delete(robotId);
+      if (!(reload && timing.disabled)) this.errors.delete(robotId);
       return true;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.errors.set(robotId, errorMessage);
       console.error(`Failed to load strategy for ${robotId}:`, errorMessage);
       return false;
+    } finally {
+      this.endBudget();
     }
   }
 
   // Create a sandboxed strategy function
-  private createSandboxedStrategy(code: string): Function {
+  private createSandboxedStrategy(robotId: string, code: string): CompiledStrategy {
+    // Top-level variables are the strategy's memory - expose accessors so snapshots can save/restore them
+    const variables = findTopLevelVariables(code);
+    const getVariables = variables.map((name) => `${name}: ${name}`).join(', ');
+    const setVariables = variables.map((name) => `if ('${name}' in __values) ${name} = __values.${name};`).join(' ');
+
     // Wrap the code in a function that returns the strategy function
     // We'll also capture the state variable
     const wrappedCode = `
       "use strict";
       
+      // Math with a seeded Math.random() so strategy randomness is reproducible
+      const Math = Object.create(__math, { random: { value: __random } });
+      
       // Helper functions available to strategies
       const Math_abs = Math.abs;
       const Math_sin = Math.sin;
@@ -50,9 +170,11 @@ export class StrategyExecutor {
       const Math_round = Math.round;
       const Math_PI = Math.PI;
       
-      // Console for debugging - expose console.log to strategies
-      // Note: In browser, console is available globally; in Node it might need to be passed
-      // For now, we'll try to use the global console if available
+      // Logging for debugging - console.* is an alias of log()
+      function log(...args) {
+        __log(args);
+      }
+      const console = { log: log, info: log, warn: log, error: log, debug: log };
       
       // Clamp helper
       function clamp(val, min, max) {
@@ -66,12 +188,12 @@ export class StrategyExecutor {
         return angle;
       }
       
-      ${code}
+      ${injectLoopGuards(code)}
       
       // Return the strategy function wrapped to capture state, target, and mentalMap
       if (typeof strategy === 'function') {
         const originalStrategy = strategy;
-        return function(worldState) {
+        const wrapped = function(worldState) {
           const result = originalStrategy(worldState);
           // Attach currentState to result if it exists
           if (typeof currentState !== 'undefined') {
@@ -87,30 +209,43 @@ export class StrategyExecutor {
           }
           return result;
         };
+        wrapped.__getVariables = function() { return { ${getVariables} }; };
+        wrapped.__setVariables = function(__values) { ${setVariables} };
+        return wrapped;
       } else {
         throw new Error('Strategy must define a function called "strategy"');
       }
     `;
 
-    // Create function in sandbox
-    const factory = new Function(wrappedCode);
-    return factory();
+    // Create function in sandbox (blocked globals are parameters left undefined). The strict code
+    // runs in an inner function: strict mode doesn't allow a parameter named eval.
+    const factory = new Function(
+      '__random', '__guard', '__log', '__math', ...BLOCKED_STRATEGY_GLOBALS,
+      `return (function () {${wrappedCode}})();`
+    );
+    const log = (args: unknown[]) => this.log(robotId, formatLogArgs(args));
+    return factory(this.random, this.loopGuard, log, Math);
   }
 
   // Execute strategy for a robot
-  executeStrategy(robotId: string, worldState: WorldState): { action: Action; state?: string; target?: string; mentalMap?: any } {
+  executeStrategy(robotId: string, worldState: WorldState): StrategyResult {
     const strategyFunc = this.strategies.get(robotId);
+    const timing = this.timings.get(robotId);
     
-    if (!strategyFunc) {
+    if (!strategyFunc || timing?.disabled) {
       return { action: createDefaultAction() };
     }
 
+    const start = performance.now();
+    this.startBudget();
     try {
-      // Execute with timeout protection (simple version)
+      // Loops are interrupted once the budget is used up; anything else slow is only detected afterwards
       const result = strategyFunc(worldState);
+      const elapsedMs = performance.now() - start;
+      this.recordTiming(robotId, elapsedMs, this.loopBudget === null && elapsedMs > this.timeBudgetMs);
       
       // Validate action
-      const action = this.validateAction(result);
+      const action = validateAction(result);
       
       // Extract state, target, and mentalMap from result if they were attached
       const state = (result as any)._state;
@@ -120,37 +255,53 @@ export class StrategyExecutor {
       return { action, state, target, mentalMap };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.errors.set(robotId, `Runtime error: ${errorMessage}`);
+      if (error instanceof StrategyTimeoutError) {
+        this.errors.set(robotId, `Timeout: ${errorMessage} (tick interrupted)`);
+      } else {
+        this.errors.set(robotId, `Runtime error: ${errorMessage}`);
+      }
+      const elapsedMs = performance.now() - start;
+      const overBudget = error instanceof StrategyTimeoutError || (this.loopBudget === null && elapsedMs > this.timeBudgetMs);
+      this.recordTiming(robotId, elapsedMs, overBudget);
       console.error(`Strategy error for ${robotId}:`, errorMessage);
       return { action: createDefaultAction() };
+    } finally {
+      this.endBudget();
     }
   }
-  
-  // Store strategy code for potential future use
-  private strategyCodeMap: Map<string, string> = new Map();
 
-  // Validate and sanitize action
-  private validateAction(result: any): Action {
-    if (!result || typeof result !== 'object') {
-      return createDefaultAction();
+  // Count over-budget ticks and disable the strategy once they happen too many times in a row
+  private recordTiming(robotId: string, elapsedMs: number, overBudget: boolean): void {
+    const timing = this.timings.get(robotId);
+    if (!timing) return;
+
+    timing.lastTickMs = elapsedMs;
+    if (!overBudget) {
+      timing.consecutiveOverBudget = 0;
+      return;
     }
 
-    return {
-      motor1: this.clampMotor(result.motor1),
-      motor2: this.clampMotor(result.motor2),
-      motor3: this.clampMotor(result.motor3),
-      motor4: this.clampMotor(result.motor4),
-      kick: Boolean(result.kick),
-    };
+    timing.overBudgetTicks++;
+    timing.consecutiveOverBudget++;
+    if (timing.consecutiveOverBudget >= MAX_CONSECUTIVE_OVER_BUDGET_TICKS) {
+      timing.disabled = true;
+      const message =
+        `Disabled: over the ${this.describeBudget()} in ${timing.consecutiveOverBudget} ticks ` +
+        `in a row (last tick ${elapsedMs.toFixed(1)} ms). Fix the strategy and reload it to re-enable.`;
+      this.errors.set(robotId, message);
+      console.error(`Strategy for ${robotId} ${message}`);
+    }
   }
 
-  // Clamp motor value to valid range
-  private clampMotor(value: any): number {
-    if (typeof value !== 'number' || isNaN(value)) {
-      return 0;
-    }
-    return Math.max(-1, Math.min(1, value));
+  // Time use of a robot's strategy (undefined if none was loaded)
+  getTiming(robotId: string): StrategyTiming | undefined {
+    const timing = this.timings.get(robotId);
+    if (!timing) return undefined;
+    return { lastTickMs: timing.lastTickMs, overBudgetTicks: timing.overBudgetTicks, disabled: timing.disabled };
   }
+  
+  // Store strategy code for potential future use
+  private strategyCodeMap: Map<string, string> = new Map();
 
   // Get error for a robot
   getError(robotId: string): string | undefined {
@@ -166,12 +317,274 @@ export class StrategyExecutor {
   removeStrategy(robotId: string): void {
     this.strategies.delete(robotId);
     this.errors.delete(robotId);
+    this.timings.delete(robotId);
   }
 
   // Clear all strategies
   clear(): void {
     this.strategies.clear();
     this.errors.clear();
+    this.timings.clear();
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+
+  // Code and top-level variable values of every loaded strategy.
+  // Values are deep-copied as JSON: functions are dropped, Maps/Sets/class instances become plain objects.
+  saveSnapshot(): Record<string, StrategySnapshot> {
+    const snapshot: Record<string, StrategySnapshot> = {};
+    for (const [robotId, strategyFunc] of this.strategies) {
+      const code = this.strategyCodeMap.get(robotId);
+      if (code === undefined) continue;
+      const variables = strategyFunc.__getVariables();
+      snapshot[robotId] = { code, variables: JSON.parse(JSON.stringify(variables)) };
+    }
+    return snapshot;
+  }
+
+  // Replace all strategies with a saved set, restoring their variables instead of starting fresh
+  loadSnapshot(snapshot: Record<string, StrategySnapshot>): void {
+    this.clear();
+    for (const [robotId, saved] of Object.entries(snapshot)) {
+      if (this.loadStrategy(robotId, saved.code)) {
+        const variables = JSON.parse(JSON.stringify(saved.variables));
+        this.strategies.get(robotId)?.__setVariables(variables);
+      }
+    }
+  }
+}
+
+// Validate and sanitize an action returned by strategy code
+export function validateAction(result: any): Action {
+  if (!result || typeof result !== 'object') {
+    return createDefaultAction();
+  }
+
+  return {
+    motor1: clampMotor(result.motor1),
+    motor2: clampMotor(result.motor2),
+    motor3: clampMotor(result.motor3),
+    motor4: clampMotor(result.motor4),
+    kick: Boolean(result.kick),
+    ...(typeof result.kick_power === 'number' && !isNaN(result.kick_power)
+      ? { kick_power: Math.max(0, Math.min(1, result.kick_power)) }
+      : {}),
+    ...(typeof result.dribbler === 'number' && result.dribbler > 0 ? { dribbler: Math.min(1, result.dribbler) } : {}),
+    ...(result.send !== undefined ? { send: result.send } : {}),
+  };
+}
+
+// Clamp motor value to valid range
+function clampMotor(value: any): number {
+  if (typeof value !== 'number' || isNaN(value)) {
+    return 0;
+  }
+  return Math.max(-1, Math.min(1, value));
+}
+
+// Add a __guard() call to every loop so a runaway loop can be interrupted: into the condition of
+// while, do-while and for(;;) loops, and at the start of the braced body of for-in/for-of loops
+// (braceless for-in/for-of bodies are left alone). Uses the same scanner as findTopLevelVariables,
+// so regular expression literals containing quotes or brackets can confuse it.
+export function injectLoopGuards(code: string): string {
+  let out = '';
+  let i = 0;
+
+  while (i < code.length) {
+    const skipped = skipCommentOrString(code, i);
+    if (skipped !== i) {
+      out += code.slice(i, skipped);
+      i = skipped;
+      continue;
+    }
+
+    const ch = code[i];
+    if (!/[A-Za-z_$]/.test(ch) || (i > 0 && /[\w$.]/.test(code[i - 1]))) {
+      out += ch;
+      i++;
+      continue;
+    }
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(code.slice(i))![0];
+    out += word;
+    i += word.length;
+    if (word !== 'for' && word !== 'while') continue;
+
+    let open = i;
+    while (open < code.length && /\s/.test(code[open])) open++;
+    if (code[open] !== '(') continue;
+    const close = findClosingParen(code, open);
+    if (close < 0) continue;
+
+    // Guard the loop header, recursing so loops inside it (e.g. in callbacks) are guarded too
+    const header = code.slice(open + 1, close);
+    const parts = word === 'for' ? splitTopLevel(header, ';') : [header];
+    out += code.slice(i, open + 1);
+    if (word === 'while') {
+      out += `__guard() && (${injectLoopGuards(header)})`;
+    } else if (parts.length === 3) {
+      const condition = parts[1].trim() ? ` __guard() && (${injectLoopGuards(parts[1])})` : ' __guard()';
+      out += `${injectLoopGuards(parts[0])};${condition};${injectLoopGuards(parts[2])}`;
+    } else {
+      out += injectLoopGuards(header);
+    }
+    out += ')';
+    i = close + 1;
+
+    if (word === 'for' && parts.length !== 3) {
+      let body = i;
+      while (body < code.length && /\s/.test(code[body])) body++;
+      if (code[body] === '{') {
+        out += code.slice(i, body + 1) + ' __guard();';
+        i = body + 1;
+      }
+    }
+  }
+
+  return out;
+}
+
+// Index of the ')' matching the '(' at open, or -1
+function findClosingParen(code: string, open: number): number {
+  let depth = 0;
+  let i = open;
+  while (i < code.length) {
+    const skipped = skipCommentOrString(code, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    const ch = code[i];
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    else if (ch === ')' || ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 0) return ch === ')' ? i : -1;
+    }
+    i++;
+  }
+  return -1;
+}
+
+// Split at separators outside brackets, comments and strings
+function splitTopLevel(code: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+  while (i < code.length) {
+    const skipped = skipCommentOrString(code, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+    const ch = code[i];
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    else if (ch === ')' || ch === '}' || ch === ']') depth--;
+    else if (depth === 0 && ch === separator) {
+      parts.push(code.slice(start, i));
+      start = i + 1;
+    }
+    i++;
+  }
+  parts.push(code.slice(start));
+  return parts;
+}
+
+// Names declared with var/let at the top level of strategy code.
+// A lightweight scanner rather than a parser: it skips comments, strings and template literals and
+// tracks bracket depth, so declarations inside functions and blocks are ignored. Destructuring
+// declarations are not recognized.
+function findTopLevelVariables(code: string): string[] {
+  const names = new Set<string>();
+  let depth = 0;
+  let i = 0;
+
+  while (i < code.length) {
+    const skipped = skipCommentOrString(code, i);
+    if (skipped !== i) {
+      i = skipped;
+      continue;
+    }
+
+    const ch = code[i];
+    if (ch === '{' || ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === '}' || ch === ')' || ch === ']') {
+      depth--;
+    } else if (depth === 0 && /[A-Za-z_$]/.test(ch) && (i === 0 || !/[\w$]/.test(code[i - 1]))) {
+      const word = /^[A-Za-z_$][\w$]*/.exec(code.slice(i))![0];
+      i += word.length;
+      if (word === 'var' || word === 'let') {
+        i = readDeclarators(code, i, names);
+      }
+      continue;
+    }
+    i++;
+  }
+
+  return Array.from(names);
+}
+
+// Collect the names of a `var a = 1, b = {...}` declaration list; returns the index after it
+function readDeclarators(code: string, start: number, names: Set<string>): number {
+  let i = start;
+
+  while (i < code.length) {
+    while (i < code.length && /\s/.test(code[i])) i++;
+    const match = /^[A-Za-z_$][\w$]*/.exec(code.slice(i));
+    if (!match) return i; // destructuring or malformed - give up on this statement
+    names.add(match[0]);
+    i += match[0].length;
+
+    // Skip the initializer up to the next top-level comma or the end of the statement
+    let depth = 0;
+    let lastToken = '';
+    while (i < code.length) {
+      const skipped = skipCommentOrString(code, i);
+      if (skipped !== i) {
+        i = skipped;
+        lastToken = 'x';
+        continue;
+      }
+      const ch = code[i];
+      if (ch === '{' || ch === '(' || ch === '[') depth++;
+      else if (ch === '}' || ch === ')' || ch === ']') depth--;
+      else if (depth === 0 && ch === ',') break;
+      else if (depth === 0 && ch === ';') return i + 1;
+      // Automatic semicolon insertion: a newline ends the statement unless the line ends mid-expression
+      else if (depth === 0 && ch === '\n' && !/[=+\-*/%&|^!?:<>.~]$/.test(lastToken)) return i + 1;
+      if (!/\s/.test(ch)) lastToken = ch;
+      i++;
+    }
+    if (code[i] !== ',') return i;
+    i++;
+  }
+
+  return i;
+}
+
+// If a comment, string or template literal starts at i, return the index after it (otherwise i)
+function skipCommentOrString(code: string, i: number): number {
+  const ch = code[i];
+  const next = code[i + 1];
+
+  if (ch === '/' && next === '/') {
+    const end = code.indexOf('\n', i);
+    return end < 0 ? code.length : end;
+  }
+  if (ch === '/' && next === '*') {
+    const end = code.indexOf('*/', i + 2);
+    return end < 0 ? code.length : end + 2;
+  }
+  if (ch === '"' || ch === "'" || ch === '`') {
+    let j = i + 1;
+    while (j < code.length && code[j] !== ch) {
+      j += code[j] === '\\' ? 2 : 1;
+    }
+    return j + 1;
   }
+  return i;
 }
 
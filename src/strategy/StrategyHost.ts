@@ -0,0 +1,60 @@
+// ============================================================
+// RoboCup Jr. Simulator - Strategy Host
+// ============================================================
+
+import { WorldState, Action } from '../types';
+import type { StrategySnapshot, StrategyTiming } from './StrategyExecutor';
+
+// Where strategy code runs:
+// - inline: in the simulation's own thread (synchronous, reproducible from the seed; the engine default)
+// - worker: one Web Worker per robot (isolated from the page and from each other; browser only, the app default)
+export type StrategyIsolation = 'inline' | 'worker';
+
+// Output of one strategy tick
+export interface StrategyResult {
+  action: Action;
+  state?: string;
+  target?: string;
+  mentalMap?: any;
+}
+
+// Runs the strategies of all robots; the engine talks to strategies only through this
+export interface StrategyHost {
+  readonly isolation: StrategyIsolation;
+  // false if the code failed to load (worker hosts report load errors later through getError())
+  loadStrategy(robotId: string, code: string): boolean;
+  executeStrategy(robotId: string, worldState: WorldState): StrategyResult;
+  getError(robotId: string): string | undefined;
+  getTiming(robotId: string): StrategyTiming | undefined;
+  setTimeBudget(ms: number): void;
+  getTimeBudget(): number;
+  hasStrategy(robotId: string): boolean;
+  removeStrategy(robotId: string): void;
+  clear(): void;
+  saveSnapshot(): Record<string, StrategySnapshot>;
+  loadSnapshot(snapshot: Record<string, StrategySnapshot>): void;
+  dispose(): void;
+}
+
+// Globals hidden from strategy code. They are shadowed by undefined parameters of the compiled
+// strategy; in a worker the network and storage APIs are removed from the worker itself as well.
+export const BLOCKED_STRATEGY_GLOBALS = [
+  'globalThis', 'window', 'self', 'top', 'parent', 'frames', 'document', 'navigator', 'location',
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'localStorage', 'sessionStorage',
+  'indexedDB', 'caches', 'importScripts', 'postMessage', 'onmessage', 'close', 'Worker',
+  'SharedWorker', 'BroadcastChannel', 'process', 'require', 'module', 'Function', 'eval',
+];
+
+// Turn the arguments of a strategy's log() call into one line
+export function formatLogArgs(args: unknown[]): string {
+  return args
+    .map((arg) => {
+      if (typeof arg === 'string') return arg;
+      try {
+        return JSON.stringify(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+}
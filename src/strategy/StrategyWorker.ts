@@ -0,0 +1,81 @@
+// ============================================================
+// RoboCup Jr. Simulator - Strategy Worker
+// ============================================================
+
+// Web Worker entry running the strategy of one robot (see WorkerStrategyHost)
+
+import { StrategyExecutor } from './StrategyExecutor';
+import { BLOCKED_STRATEGY_GLOBALS } from './StrategyHost';
+import type { StrategyWorkerRequest, StrategyWorkerResponse, StrategyWorkerStatus } from './WorkerStrategyHost';
+import { SeededRandom } from '../simulator/Random';
+
+interface WorkerScope {
+  postMessage(message: StrategyWorkerResponse): void;
+  onmessage: ((event: MessageEvent<StrategyWorkerRequest>) => void) | null;
+  [name: string]: unknown;
+}
+
+const scope = self as unknown as WorkerScope;
+const post = scope.postMessage.bind(scope);
+
+// Take away what a strategy could use to reach outside its worker, in case it escapes the
+// shadowed globals (e.g. through Function.prototype.constructor). postMessage stays, but the
+// host only accepts well-formed replies to its own requests. Function and eval stay too: the
+// executor compiles strategies with them.
+for (const name of BLOCKED_STRATEGY_GLOBALS) {
+  if (name === 'globalThis' || name === 'self' || name === 'postMessage' || name === 'onmessage') continue;
+  if (name === 'Function' || name === 'eval') continue;
+  try {
+    delete scope[name];
+    if (name in scope) Object.defineProperty(scope, name, { value: undefined });
+  } catch {
+    // Not configurable in this browser - still shadowed inside strategy code
+  }
+}
+
+let robotId = '';
+let executor: StrategyExecutor | null = null;
+
+// Strategy status sent along with every reply (the host keeps the latest)
+const status = (): StrategyWorkerStatus => ({
+  timing: executor?.getTiming(robotId),
+  error: executor?.getError(robotId),
+  variables: executor?.saveSnapshot()[robotId]?.variables ?? {},
+});
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init': {
+      robotId = request.robotId;
+      const rng = new SeededRandom(request.seed);
+      executor = new StrategyExecutor(
+        () => rng.next(),
+        (_robotId, message) => post({ type: 'log', message })
+      );
+      executor.setTimeBudget(request.budgetMs);
+      break;
+    }
+
+    case 'load':
+      if (!executor) return;
+      if (request.variables) {
+        executor.loadSnapshot({ [robotId]: { code: request.code, variables: request.variables } });
+      } else {
+        executor.loadStrategy(robotId, request.code);
+      }
+      post({ type: 'loaded', ok: executor.hasStrategy(robotId), ...status() });
+      break;
+
+    case 'budget':
+      executor?.setTimeBudget(request.budgetMs);
+      break;
+
+    case 'tick': {
+      if (!executor) return;
+      const result = executor.executeStrategy(robotId, request.worldState);
+      post({ type: 'result', seq: request.seq, result, ...status() });
+      break;
+    }
+  }
+};
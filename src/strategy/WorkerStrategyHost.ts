@@ -0,0 +1,253 @@
+// ============================================================
+// RoboCup Jr. Simulator - Worker Strategy Host
+// ============================================================
+
+import { WorldState, createDefaultAction } from '../types';
+import { StrategyHost, StrategyResult } from './StrategyHost';
+import {
+  StrategySnapshot,
+  StrategyTiming,
+  StrategyLogger,
+  DEFAULT_STRATEGY_TIME_BUDGET_MS,
+  consoleLogger,
+  validateAction,
+} from './StrategyExecutor';
+
+// Messages from the host to a strategy worker
+export type StrategyWorkerRequest =
+  | { type: 'init'; robotId: string; seed: number; budgetMs: number }
+  | { type: 'load'; code: string; variables?: Record<string, unknown> }
+  | { type: 'budget'; budgetMs: number }
+  | { type: 'tick'; seq: number; worldState: WorldState };
+
+// Strategy status a worker sends with every reply
+export interface StrategyWorkerStatus {
+  timing?: StrategyTiming;
+  error?: string;
+  variables: Record<string, unknown>;  // top-level var/let values (for snapshots)
+}
+
+// Messages from a strategy worker to the host
+export type StrategyWorkerResponse =
+  | ({ type: 'loaded'; ok: boolean } & StrategyWorkerStatus)
+  | ({ type: 'result'; seq: number; result: StrategyResult } & StrategyWorkerStatus)
+  | { type: 'log'; message: string };
+
+// A worker that doesn't answer a tick within this time is terminated and its strategy disabled.
+// The loop guard inside the worker normally interrupts a slow tick long before.
+export const WORKER_UNRESPONSIVE_MS = 1000;
+
+interface WorkerRobot {
+  worker: Worker;
+  code: string;
+  status: StrategyWorkerStatus;
+  lastResult: StrategyResult | null;
+  pending: { seq: number; sentAt: number } | null;
+  nextSeq: number;
+  terminated: string | null;  // why the worker was terminated
+}
+
+const createStrategyWorker = (): Worker =>
+  new Worker(new URL('./StrategyWorker.ts', import.meta.url), { type: 'module' });
+
+// Runs each robot's strategy in its own Web Worker, so strategies can't reach the page or each
+// other. Workers answer asynchronously: every tick sends the current WorldState to an idle worker
+// and returns the latest action it has replied with (zero-order hold). Actions therefore lag the
+// world by at least one message round trip, and runs are not reproducible from the seed alone.
+export class WorkerStrategyHost implements StrategyHost {
+  readonly isolation = 'worker' as const;
+  private robots: Map<string, WorkerRobot> = new Map();
+  private timeBudgetMs: number = DEFAULT_STRATEGY_TIME_BUDGET_MS;
+  private random: () => number;
+  private log: StrategyLogger;
+  private createWorker: () => Worker;
+
+  // random: seeds each worker's Math.random()
+  constructor(random: () => number, log: StrategyLogger = consoleLogger, createWorker: () => Worker = createStrategyWorker) {
+    if (typeof Worker === 'undefined') {
+      throw new Error('Strategy isolation "worker" needs Web Workers, which are not available here - use "inline"');
+    }
+    this.random = random;
+    this.log = log;
+    this.createWorker = createWorker;
+  }
+
+  // Start a fresh worker for new code (replacing the robot's previous one). The same code again
+  // (the engine reloads strategies when the match is reset) restarts it inside its running worker
+  // instead, keeping its time use; a terminated worker stays terminated until new code is loaded.
+  loadStrategy(robotId: string, code: string): boolean {
+    const robot = this.robots.get(robotId);
+    if (robot && robot.code === code) {
+      if (!robot.terminated) this.restartStrategy(robot);
+    } else {
+      this.startWorker(robotId, code);
+    }
+    return true;
+  }
+
+  // Run the strategy's top-level code again in its worker. The reply to a tick sent before is
+  // ignored, and the strategy acts again from its next tick on.
+  private restartStrategy(robot: WorkerRobot): void {
+    robot.status = { ...robot.status, variables: {} };
+    robot.lastResult = null;
+    robot.pending = null;
+    this.post(robot, { type: 'load', code: robot.code });
+  }
+
+  private startWorker(robotId: string, code: string, variables?: Record<string, unknown>): void {
+    this.removeStrategy(robotId);
+
+    const robot: WorkerRobot = {
+      worker: this.createWorker(),
+      code,
+      status: { variables: variables ?? {} },
+      lastResult: null,
+      pending: null,
+      nextSeq: 0,
+      terminated: null,
+    };
+    this.robots.set(robotId, robot);
+
+    robot.worker.onmessage = (event: MessageEvent<StrategyWorkerResponse>) => this.handleMessage(robotId, robot, event.data);
+    robot.worker.onerror = (event) => {
+      robot.status = { ...robot.status, error: `Worker error: ${event.message}` };
+    };
+
+    this.post(robot, { type: 'init', robotId, seed: Math.floor(this.random() * 0x100000000), budgetMs: this.timeBudgetMs });
+    this.post(robot, { type: 'load', code, variables });
+  }
+
+  private post(robot: WorkerRobot, request: StrategyWorkerRequest): void {
+    robot.worker.postMessage(request);
+  }
+
+  // Replies come from code we don't trust: ignore anything that isn't a reply to this worker's
+  // current request, and sanitize what is used
+  private handleMessage(robotId: string, robot: WorkerRobot, message: StrategyWorkerResponse): void {
+    if (this.robots.get(robotId) !== robot || !message || typeof message !== 'object') return;
+
+    switch (message.type) {
+      case 'log':
+        this.log(robotId, String(message.message));
+        break;
+
+      case 'loaded':
+        robot.status = readStatus(message, robot.status);
+        break;
+
+      case 'result':
+        if (!robot.pending || message.seq !== robot.pending.seq) return;
+        robot.pending = null;
+        robot.status = readStatus(message, robot.status);
+        robot.lastResult = {
+          action: validateAction(message.result?.action),
+          state: typeof message.result?.state === 'string' ? message.result.state : undefined,
+          target: typeof message.result?.target === 'string' ? message.result.target : undefined,
+          mentalMap: message.result?.mentalMap,
+        };
+        break;
+    }
+  }
+
+  executeStrategy(robotId: string, worldState: WorldState): StrategyResult {
+    const robot = this.robots.get(robotId);
+    if (!robot || robot.terminated || robot.status.timing?.disabled) {
+      return { action: createDefaultAction() };
+    }
+
+    const now = performance.now();
+    if (!robot.pending) {
+      const seq = robot.nextSeq++;
+      this.post(robot, { type: 'tick', seq, worldState });
+      robot.pending = { seq, sentAt: now };
+    } else if (now - robot.pending.sentAt > WORKER_UNRESPONSIVE_MS) {
+      robot.worker.terminate();
+      robot.terminated = `Disabled: the strategy worker did not answer for ${WORKER_UNRESPONSIVE_MS} ms and was ` +
+        'terminated. Fix the strategy and reload it to re-enable.';
+      console.error(`Strategy for ${robotId} ${robot.terminated}`);
+      return { action: createDefaultAction() };
+    }
+
+    const result = robot.lastResult;
+    if (!result) return { action: createDefaultAction() };
+    // A held action repeats its motor, kick and dribbler commands, but its message is sent only once
+    if (result.action.send !== undefined) {
+      const { send, ...held } = result.action;
+      robot.lastResult = { ...result, action: held };
+    }
+    return result;
+  }
+
+  getError(robotId: string): string | undefined {
+    const robot = this.robots.get(robotId);
+    return robot?.terminated ?? robot?.status.error;
+  }
+
+  getTiming(robotId: string): StrategyTiming | undefined {
+    const robot = this.robots.get(robotId);
+    const timing = robot?.status.timing;
+    if (!robot || !timing) return undefined;
+    return { ...timing, disabled: timing.disabled || robot.terminated !== null };
+  }
+
+  setTimeBudget(ms: number): void {
+    if (!(ms > 0)) {
+      throw new Error(`Strategy time budget must be positive (got ${ms})`);
+    }
+    this.timeBudgetMs = ms;
+    for (const robot of this.robots.values()) {
+      this.post(robot, { type: 'budget', budgetMs: ms });
+    }
+  }
+
+  getTimeBudget(): number {
+    return this.timeBudgetMs;
+  }
+
+  hasStrategy(robotId: string): boolean {
+    return this.robots.has(robotId);
+  }
+
+  removeStrategy(robotId: string): void {
+    this.robots.get(robotId)?.worker.terminate();
+    this.robots.delete(robotId);
+  }
+
+  clear(): void {
+    for (const robotId of Array.from(this.robots.keys())) {
+      this.removeStrategy(robotId);
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+
+  // Variables are the values from each worker's latest reply
+  saveSnapshot(): Record<string, StrategySnapshot> {
+    const snapshot: Record<string, StrategySnapshot> = {};
+    for (const [robotId, robot] of this.robots) {
+      snapshot[robotId] = { code: robot.code, variables: JSON.parse(JSON.stringify(robot.status.variables)) };
+    }
+    return snapshot;
+  }
+
+  loadSnapshot(snapshot: Record<string, StrategySnapshot>): void {
+    this.clear();
+    for (const [robotId, saved] of Object.entries(snapshot)) {
+      this.startWorker(robotId, saved.code, saved.variables);
+    }
+  }
+}
+
+// Status fields of a worker reply, keeping the previous values of malformed ones
+function readStatus(message: Partial<StrategyWorkerStatus>, previous: StrategyWorkerStatus): StrategyWorkerStatus {
+  const timing = message.timing;
+  return {
+    timing: timing && typeof timing.lastTickMs === 'number' && typeof timing.overBudgetTicks === 'number'
+      ? { lastTickMs: timing.lastTickMs, overBudgetTicks: timing.overBudgetTicks, disabled: Boolean(timing.disabled) }
+      : previous.timing,
+    error: typeof message.error === 'string' ? message.error : undefined,
+    variables: message.variables && typeof message.variables === 'object' ? message.variables : previous.variables,
+  };
+}
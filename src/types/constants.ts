@@ -3,6 +3,19 @@
 // Based on RoboCup Junior Soccer Open 2025 Specifications
 // ============================================================
 
+import type {
+  CommsConfig,
+  ImuConfig,
+  DriveConfig,
+  KickerConfig,
+  LightGateConfig,
+  LineSensorConfig,
+  MatchRules,
+  RangeSensorConfig,
+  SensorLatencyConfig,
+  SensorNoiseProfile,
+} from './index';
+
 // Field dimensions (in cm)
 // Total footprint including outer area: ~182 cm × 243 cm
 // Playable field marked by white line: 158 cm × 219 cm
@@ -66,12 +79,19 @@ export const ROBOT = {
   // Kicker
   KICKER_RANGE: 5,         // cm from robot edge to detect ball for kick
   KICK_FORCE: 300,         // impulse force for kick (reduced for realistic physics)
+
+  // Dribbler
+  DRIBBLER_GRIP: 1200,     // cm/s^2 the rollers can accelerate a ball in the notch at full power
+  DRIBBLER_PULL: 10,       // 1/s rate at which backspin pulls a displaced ball back into the notch
   
   // Motor limits (realistic for Open league robots)
   MAX_SPEED: 150,          // cm/s max linear speed
   MAX_ANGULAR_SPEED: 540,  // deg/s max rotation speed (1.5 rotations/sec)
 };
 
+// Gravity (cm/s^2), for the wheels' grip on the carpet
+export const GRAVITY = 981;
+
 // Neutral spot positions (in cm, relative to field center)
 // Based on RCJ rules: spots for ball placement after out-of-bounds
 // Positions are well inside field boundaries (at least 40cm from edges) to prevent false out-of-bounds
@@ -101,6 +121,263 @@ export const TIMING = {
   RENDER_STEP: 1000 / 60,          // 60 FPS render
 };
 
+// Default match rules (official RCJ timing, no mercy rule)
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  halves: 2,
+  halfDurationMs: TIMING.HALF_DURATION,
+  kickoffCountdownMs: TIMING.KICKOFF_COUNTDOWN,
+  outOfBoundsCountdownMs: TIMING.OUT_OF_BOUNDS_COUNTDOWN,
+  goalCountdownMs: TIMING.GOAL_CELEBRATION,
+  lackOfProgressMs: TIMING.LACK_OF_PROGRESS,
+  goldenGoal: false,
+  mercyGoalDifference: 0,
+};
+
+// Rule sets offered in the app
+export const MATCH_RULE_PRESETS: { id: string; name: string; rules: MatchRules }[] = [
+  {
+    id: 'competition',
+    name: 'Competition (2 x 10 min)',
+    rules: { ...DEFAULT_MATCH_RULES, mercyGoalDifference: 10 },
+  },
+  {
+    id: 'practice',
+    name: 'Quick practice (2 x 2 min)',
+    rules: { ...DEFAULT_MATCH_RULES, halfDurationMs: 2 * 60 * 1000, mercyGoalDifference: 0 },
+  },
+  {
+    id: 'knockout',
+    name: 'Knockout (2 x 10 min, golden goal)',
+    rules: { ...DEFAULT_MATCH_RULES, goldenGoal: true, mercyGoalDifference: 10 },
+  },
+];
+
+// Teammate link, roughly a Bluetooth serial module (HC-05 class) with application framing
+export const DEFAULT_COMMS_CONFIG: CommsConfig = {
+  latencyMs: 30,
+  jitterMs: 20,
+  dropRate: 0.02,
+  bandwidthBytesPerSec: 2000,
+  maxMessageBytes: 128,
+};
+
+// Sensor delays (ms). Zero by default, so strategies see each reading on the tick it is taken; a
+// Pixy2 on I2C is closer to camera 50, imu 10, line 2.
+export const DEFAULT_SENSOR_LATENCY: SensorLatencyConfig = {
+  camera: 0,
+  imu: 0,
+  line: 0,
+  bumper: 0,
+  range: 0,
+  light_gate: 0,
+  dribbler: 0,
+};
+
+// Range sensor layouts. Robots have none unless configured.
+export const RANGE_SENSOR_PRESETS: { id: string; name: string; sensors: RangeSensorConfig[] }[] = [
+  {
+    id: 'ultrasonic_lrb',
+    name: 'Ultrasonic left / right / back (HC-SR04 class)',
+    sensors: [
+      { angleDeg: 90, fovDeg: 30, maxRangeCm: 400, noiseStdCm: 1 },
+      { angleDeg: -90, fovDeg: 30, maxRangeCm: 400, noiseStdCm: 1 },
+      { angleDeg: 180, fovDeg: 30, maxRangeCm: 400, noiseStdCm: 1 },
+    ],
+  },
+  {
+    id: 'tof_ring',
+    name: 'Time-of-flight ring of 8 (VL53L1X class)',
+    sensors: [0, 45, 90, 135, 180, -135, -90, -45].map((angleDeg) => ({
+      angleDeg,
+      fovDeg: 27,
+      maxRangeCm: 400,
+      noiseStdCm: 0.5,
+    })),
+  },
+];
+
+// Reflectance (0..1) of the floor as seen by a line sensor
+export const SURFACE_REFLECTANCE = {
+  LINE: 0.9,               // white lines
+  CARPET: 0.1,             // green carpet of the playing field
+  OUTER: 0.2,              // tan (wood) outer area beyond the boundary lines, and the goal floors
+};
+
+// Four point sensors at the robot's edge, one per direction (the default)
+export const DEFAULT_LINE_SENSOR_CONFIG: LineSensorConfig = {
+  count: 4,
+  radiusCm: ROBOT.RADIUS,
+  footprintCm: 0,
+  threshold: 0.5,
+};
+
+// Line sensor rings offered for scenarios
+export const LINE_SENSOR_PRESETS: { id: string; name: string; config: LineSensorConfig }[] = [
+  {
+    id: 'edge_4',
+    name: 'Four point sensors at the edge',
+    config: DEFAULT_LINE_SENSOR_CONFIG,
+  },
+  {
+    id: 'ring_16',
+    name: 'Ring of 16 phototransistors',
+    config: { count: 16, radiusCm: 7, footprintCm: 1, threshold: 0.5 },
+  },
+  {
+    id: 'ring_32',
+    name: 'Ring of 32 phototransistors',
+    config: { count: 32, radiusCm: 7.5, footprintCm: 0.8, threshold: 0.5 },
+  },
+];
+
+// Noise-free light gate halfway into the kicker notch (the default)
+export const DEFAULT_LIGHT_GATE_CONFIG: LightGateConfig = {
+  beamDepthCm: ROBOT.NOTCH_DEPTH / 2,
+  missRate: 0,
+  falsePositiveRate: 0,
+};
+
+// Ideal kicker: always charged, fires on every step that kicks (the default)
+export const DEFAULT_KICKER_CONFIG: KickerConfig = {
+  chargeMs: 0,
+  cooldownMs: 0,
+  kickDurationMs: 0,
+};
+
+// A typical solenoid kicker: a boost converter recharges the capacitor in about two seconds, and
+// the plunger is out for a few steps
+export const SOLENOID_KICKER_CONFIG: KickerConfig = {
+  chargeMs: 2000,
+  cooldownMs: 250,
+  kickDurationMs: 40,
+};
+
+// Kickers offered for scenarios
+export const KICKER_PRESETS: { id: string; name: string; config: KickerConfig }[] = [
+  {
+    id: 'ideal',
+    name: 'Ideal: always charged',
+    config: DEFAULT_KICKER_CONFIG,
+  },
+  {
+    id: 'solenoid',
+    name: 'Solenoid charging in 2 s',
+    config: SOLENOID_KICKER_CONFIG,
+  },
+];
+
+// Four omni wheels at 45 deg (X). The motors match the omniMix order of the built-in strategies
+// (m1 = f + s - t, m2 = f - s + t, m3 = f + s + t, m4 = f - s - t): as seen on screen, motor1 back
+// right, motor2 back left, motor3 front left, motor4 front right. Full commands reach
+// ROBOT.MAX_SPEED straight ahead and about 870 deg/s turning on the spot.
+const OMNI_X_45_DRIVE: Omit<DriveConfig, 'model'> = {
+  wheels: [
+    { positionDeg: 135, driveDeg: 45 },
+    { positionDeg: 225, driveDeg: 315 },
+    { positionDeg: 315, driveDeg: 45 },
+    { positionDeg: 45, driveDeg: 315 },
+  ],
+  wheelDistanceCm: 7,
+  stallForceN: 8,
+  freeSpeedCmS: ROBOT.MAX_SPEED * Math.SQRT1_2,
+  maxAccelCmS2: 0,
+  traction: 0.8,
+};
+
+// Robot drives. The kinematic one is the default: the built-in strategies are tuned to it, and
+// it keeps earlier matches, scenarios and replays as they were (see README, Drive). Three wheels
+// need a strategy that mixes for them.
+export const DRIVE_PRESETS: { id: string; name: string; config: DriveConfig }[] = [
+  {
+    id: 'kinematic',
+    name: 'Kinematic: motor commands set the speed directly',
+    config: { model: 'kinematic', ...OMNI_X_45_DRIVE },
+  },
+  {
+    id: 'omni_x_45',
+    name: 'Four omni wheels at 45 deg (X)',
+    config: { model: 'dynamic', ...OMNI_X_45_DRIVE },
+  },
+  {
+    id: 'omni_3',
+    name: 'Three omni wheels at 120 deg (motor1 front right, motor2 back, motor3 front left on screen; motor4 unused)',
+    config: {
+      model: 'dynamic',
+      wheels: [
+        { positionDeg: 60, driveDeg: 150 },
+        { positionDeg: 180, driveDeg: 270 },
+        { positionDeg: 300, driveDeg: 30 },
+      ],
+      wheelDistanceCm: 8.6,
+      stallForceN: 10,
+      freeSpeedCmS: ROBOT.MAX_SPEED * Math.cos(Math.PI / 6),
+      maxAccelCmS2: 0,
+      traction: 0.8,
+    },
+  },
+];
+
+export const DEFAULT_DRIVE_CONFIG: DriveConfig = DRIVE_PRESETS[0].config;
+
+// Perfect IMU: the true heading and yaw rate, always calibrated (the default)
+export const DEFAULT_IMU_CONFIG: ImuConfig = {
+  gyroBiasDps: 0,
+  gyroNoiseDps: 0,
+  biasWalkDps: 0,
+  magCorrectionPerS: 0,
+  goalDisturbanceDeg: 0,
+  goalDisturbanceRadiusCm: 0,
+  motorDisturbanceDeg: 0,
+  startCalibrated: true,
+};
+
+// A BNO055 as mounted on a typical robot (arduino/robot.ino): calibrated gyro offset, steel goal
+// frames and motor currents disturbing the magnetometer, calibration starting from scratch
+export const BNO055_IMU_CONFIG: ImuConfig = {
+  gyroBiasDps: 0.2,
+  gyroNoiseDps: 0.3,
+  biasWalkDps: 0.02,
+  magCorrectionPerS: 0.5,
+  goalDisturbanceDeg: 15,
+  goalDisturbanceRadiusCm: 40,
+  motorDisturbanceDeg: 8,
+  startCalibrated: false,
+};
+
+// Perfect sensors: readings are the ground truth (the default)
+export const IDEAL_SENSOR_NOISE: SensorNoiseProfile = {
+  camera: { angleStdDeg: 0, distanceStdFraction: 0, dropoutRate: 0, edgeDropoutRate: 0, edgeMarginCm: 0, falsePositiveRate: 0 },
+  imu: { headingStdDeg: 0, speedStdFraction: 0 },
+  line: { missRate: 0, falsePositiveRate: 0 },
+};
+
+// Sensor noise profiles offered in the app
+export const SENSOR_NOISE_PRESETS: { id: string; name: string; profile: SensorNoiseProfile }[] = [
+  {
+    id: 'ideal',
+    name: 'Ideal',
+    profile: IDEAL_SENSOR_NOISE,
+  },
+  {
+    id: 'typical_pixy2',
+    name: 'Typical Pixy2',
+    profile: {
+      camera: { angleStdDeg: 1.5, distanceStdFraction: 0.05, dropoutRate: 0.03, edgeDropoutRate: 0.2, edgeMarginCm: 15, falsePositiveRate: 0.005 },
+      imu: { headingStdDeg: 0.5, speedStdFraction: 0.05 },
+      line: { missRate: 0.02, falsePositiveRate: 0.002 },
+    },
+  },
+  {
+    id: 'bad_lighting',
+    name: 'Bad lighting',
+    profile: {
+      camera: { angleStdDeg: 4, distanceStdFraction: 0.15, dropoutRate: 0.15, edgeDropoutRate: 0.5, edgeMarginCm: 25, falsePositiveRate: 0.03 },
+      imu: { headingStdDeg: 0.5, speedStdFraction: 0.05 },
+      line: { missRate: 0.1, falsePositiveRate: 0.02 },
+    },
+  },
+];
+
 // Physics constants
 export const PHYSICS = {
   // Friction (carpet surface)
@@ -16,6 +16,14 @@ export interface Observation {
   h: number;               // bounding box height (px)
 }
 
+// Calibration status of the IMU, 0 (uncalibrated) to 3 (fully calibrated) like BNO055 getCalibration()
+export interface ImuCalibration {
+  sys: number;
+  gyro: number;
+  accel: number;
+  mag: number;
+}
+
 // Core world model consumed by strategy
 // Keep it independent of motors/PWM. Strategy should only read this.
 export interface WorldState {
@@ -27,6 +35,7 @@ export interface WorldState {
   heading_deg: number;     // yaw in degrees (0..360 or -180..180)
   yaw_rate_dps: number;    // deg/sec
   v_est: number;           // estimated speed
+  imu_calibration: ImuCalibration;
 
   // Vision / targets
   ball: Observation;
@@ -37,9 +46,14 @@ export interface WorldState {
   bumper_front: boolean;
   bumper_left: boolean;
   bumper_right: boolean;
+  range_cm: number[];       // range sensor readings, in the order of the robot's rangeSensors
+  ball_captured: boolean;   // light gate in the kicker notch is interrupted by the ball
+  ball_held: boolean;       // the running dribbler has the ball in the notch
+  kicker_ready: boolean;    // the kicker is fully charged and can fire
 
   // Line sensors (detect white lines on field)
-  line_front: boolean;      // white line detected in front
+  line_reflectance: number[];  // reflectance (0..1) of each sensor of the ring, counterclockwise from the front
+  line_front: boolean;      // white line detected in front (any sensor within 45 deg of the direction)
   line_left: boolean;       // white line detected on left
   line_right: boolean;      // white line detected on right
   line_rear: boolean;       // white line detected behind
@@ -51,6 +65,9 @@ export interface WorldState {
   // Game-side info
   we_are_blue: boolean;    // which goal is ours
   kickoff_us: boolean;
+
+  // Teammate messages delivered since the previous tick, oldest first
+  inbox: TeamMessage[];
   
   // Strategy state (optional, set by strategy)
   state?: string;           // current state machine state
@@ -86,13 +103,23 @@ export interface WorldState {
   };
 }
 
+// Message from a teammate (Action.send of its strategy)
+export interface TeamMessage {
+  from: string;            // sender robot id
+  sent_ms: number;         // sender's t_ms when it was sent
+  data: unknown;           // the payload (a JSON copy)
+}
+
 // Action output from strategy
 export interface Action {
   motor1: number;          // -1 to 1 (front-left for omni)
   motor2: number;          // -1 to 1 (front-right)
   motor3: number;          // -1 to 1 (back-right)
   motor4: number;          // -1 to 1 (back-left)
-  kick: boolean;           // trigger kick
+  kick: boolean;           // fire the kicker (it fires only when charged enough and cooled down, see KickerConfig)
+  kick_power?: number;     // 0 to 1 share of the capacitor's charge a kick uses (default 1)
+  dribbler?: number;       // 0 to 1 dribbler roller power (backspin on a ball in the notch)
+  send?: unknown;          // message to all teammates (JSON-serializable), see CommsConfig
 }
 
 // Game modes
@@ -121,6 +148,24 @@ export type Team = 'blue' | 'yellow';
 // Robot roles
 export type RobotRole = 'attacker' | 'defender';
 
+// One robot of a team roster (SimulationConfig.roster)
+export interface RosterRobot {
+  id: string;              // unique robot id, e.g. "blue_attacker"
+  team: Team;
+  role: RobotRole;         // shown on the robot; behavior comes from the strategy
+  start: { x: number; y: number; angle: number };  // kickoff pose (cm, radians)
+  strategy?: string;       // strategy source code (the robot stands still without one)
+  controlHz?: number;      // strategy calls per second (default: every simulation step)
+  cameraHz?: number;       // camera frames per second: ball and goal observations (default: every step)
+  sensorLatency?: Partial<SensorLatencyConfig>;  // overrides of SimulationConfig.sensorLatency
+  imu?: Partial<ImuConfig>;                       // overrides of SimulationConfig.imu
+  rangeSensors?: RangeSensorConfig[];             // replaces SimulationConfig.rangeSensors
+  lineSensors?: Partial<LineSensorConfig>;        // overrides of SimulationConfig.lineSensors
+  lightGate?: Partial<LightGateConfig>;           // overrides of SimulationConfig.lightGate
+  kicker?: Partial<KickerConfig>;                 // overrides of SimulationConfig.kicker
+  drive?: Partial<DriveConfig>;                   // overrides of SimulationConfig.drive
+}
+
 // Game state
 export interface GameState {
   mode: GameMode;
@@ -128,13 +173,137 @@ export interface GameState {
   score_blue: number;
   score_yellow: number;
   time_elapsed_ms: number;
-  half: 1 | 2;
+  half: number;            // 1..rules.halves; rules.halves + 1 is the golden goal period
   countdown_ms: number;
   last_touch_team: Team | null;
   kickoff_team: Team;
   paused: boolean;
 }
 
+// Match rules (see DEFAULT_MATCH_RULES / MATCH_RULE_PRESETS in constants)
+export interface MatchRules {
+  halves: number;
+  halfDurationMs: number;
+  kickoffCountdownMs: number;      // also the half time break
+  outOfBoundsCountdownMs: number;
+  goalCountdownMs: number;         // pause after a goal before the next kickoff
+  lackOfProgressMs: number;        // ball stationary this long is moved to a neutral spot
+  goldenGoal: boolean;             // a tie after the last half is decided by the next goal
+  mercyGoalDifference: number;     // match ends once a team leads by this many goals (0 = off)
+}
+
+// Teammate radio link of a team (see DEFAULT_COMMS_CONFIG in constants)
+export interface CommsConfig {
+  latencyMs: number;               // one-way delay of every message
+  jitterMs: number;                // extra random delay, 0..jitterMs (messages stay in order)
+  dropRate: number;                // probability (0..1) that a message is lost, per recipient
+  bandwidthBytesPerSec: number;    // sustained send rate per robot; messages beyond it are dropped
+  maxMessageBytes: number;         // larger messages are dropped (size of the JSON text)
+}
+
+// Sensors of a robot as seen by strategies, each a group of WorldState fields (see SENSOR_FIELDS)
+export type SensorName = 'camera' | 'imu' | 'line' | 'bumper' | 'range' | 'light_gate' | 'dribbler';
+
+// Delay (ms) from a sensor reading to the strategy seeing it (see DEFAULT_SENSOR_LATENCY in constants)
+export type SensorLatencyConfig = Record<SensorName, number>;
+
+// Ultrasonic or time-of-flight distance sensor on the robot's edge (see RANGE_SENSOR_PRESETS in constants)
+export interface RangeSensorConfig {
+  angleDeg: number;                // mounting direction, robot-relative like Observation.angle_deg (90 = left)
+  fovDeg: number;                  // width of the sensing cone; the nearest echo in it is reported
+  maxRangeCm: number;              // reading when nothing is in range
+  noiseStdCm: number;              // reading error (std dev)
+}
+
+// Ring of downward-facing phototransistors under the robot (see LINE_SENSOR_PRESETS in constants).
+// Each sensor reports the mean reflectance of the floor it sees (SURFACE_REFLECTANCE in constants).
+export interface LineSensorConfig {
+  count: number;                   // sensors evenly spaced around the ring, the first facing forward
+  radiusCm: number;                // distance of the sensors from the robot's center
+  footprintCm: number;             // diameter of the floor spot each sensor sees (0 = a single point)
+  threshold: number;               // reflectance from which a sensor counts as over a line
+}
+
+// Light barrier across the kicker notch (see DEFAULT_LIGHT_GATE_CONFIG in constants). The robot's
+// body is a plain circle, so the ball rests against its front where the notch would hold it: a ball
+// touching the front counts as at the bottom of the notch, one a centimeter away as a centimeter
+// less deep, and so on.
+export interface LightGateConfig {
+  beamDepthCm: number;             // depth of the beam in the notch: 0 = across its mouth, ROBOT.NOTCH_DEPTH = at its bottom
+  missRate: number;                // probability that the ball in the beam isn't reported
+  falsePositiveRate: number;       // probability that the gate reports a ball that isn't there
+}
+
+// Solenoid kicker fed by a capacitor (see DEFAULT_KICKER_CONFIG in constants). Firing uses
+// kick_power of the charge there is, so a kick on a half-charged capacitor is half as strong, and
+// the kicker fires whether or not the ball is there.
+export interface KickerConfig {
+  chargeMs: number;                // time to charge the empty capacitor fully (0 = always charged)
+  cooldownMs: number;              // time from firing until the kicker can fire again
+  kickDurationMs: number;          // time the plunger stays out: a ball reaching it meanwhile is kicked too
+}
+
+// One omni wheel, in the robot's frame (degrees from the front toward increasing angle, clockwise on screen)
+export interface DriveWheel {
+  positionDeg: number;             // where the wheel sits around the robot's center
+  driveDeg: number;                // direction the wheel pushes the robot at a positive motor command
+}
+
+// Drive of a robot (see DRIVE_PRESETS in constants). The kinematic model moves the robot at the
+// speed its omniMix motor commands ask for. The dynamic model drives it with omni wheels: motor n
+// drives wheel n, which pushes along its drive direction with a DC motor's force, and its rollers
+// let it slide freely across that direction.
+export interface DriveConfig {
+  model: 'kinematic' | 'dynamic';  // the wheel settings below apply to the dynamic model
+  wheels: DriveWheel[];            // one per motor, motor1 first (at most 4)
+  wheelDistanceCm: number;         // from the robot's center to each wheel
+  stallForceN: number;             // a wheel's force at full command while standing still
+  freeSpeedCmS: number;            // a wheel's speed at full command without load; the force falls linearly to 0 there
+  maxAccelCmS2: number;            // motor controller ramp: limit of the robot's acceleration (0 = none)
+  traction: number;                // wheel-carpet friction coefficient; a wheel pushing harder slips
+}
+
+// IMU of a robot, patterned on a BNO055 in NDOF fusion mode (see DEFAULT_IMU_CONFIG in constants).
+// The gyro's bias makes the heading drift; the magnetometer pulls it back towards its own reading,
+// which is off near the goals and while the motors run.
+export interface ImuConfig {
+  gyroBiasDps: number;             // constant yaw rate error
+  gyroNoiseDps: number;            // yaw rate noise (std dev)
+  biasWalkDps: number;             // bias instability: random walk of the bias per sqrt(second)
+  magCorrectionPerS: number;       // share of the heading error the magnetometer removes per second (0 = gyro only)
+  goalDisturbanceDeg: number;      // magnetometer error at a goal, falling to 0 at goalDisturbanceRadiusCm
+  goalDisturbanceRadiusCm: number;
+  motorDisturbanceDeg: number;     // magnetometer error with every motor at full power
+  startCalibrated: boolean;        // false: gyro calibrates while standing still, mag while turning
+}
+
+// Detection errors of the camera in physics perception mode (camera modes detect in rendered images)
+export interface CameraNoiseConfig {
+  angleStdDeg: number;             // angle error (std dev) at 1 m, growing linearly with distance
+  distanceStdFraction: number;     // distance error (std dev) as a fraction of the distance
+  dropoutRate: number;             // probability (0..1) that a visible object is missed in a frame
+  edgeDropoutRate: number;         // probability that a ball near the field edge is missed in a frame
+  edgeMarginCm: number;            // "near the field edge": within this distance of the outer walls
+  falsePositiveRate: number;       // probability that a frame reports a phantom ball instead
+}
+
+export interface ImuNoiseConfig {
+  headingStdDeg: number;           // heading error (std dev)
+  speedStdFraction: number;        // v_est error (std dev) as a fraction of the speed
+}
+
+export interface LineNoiseConfig {
+  missRate: number;                // probability that a sensor over a line reads false
+  falsePositiveRate: number;       // probability that a sensor off the lines reads true
+}
+
+// Noise of every sensor reading (see SENSOR_NOISE_PRESETS in constants)
+export interface SensorNoiseProfile {
+  camera: CameraNoiseConfig;
+  imu: ImuNoiseConfig;
+  line: LineNoiseConfig;
+}
+
 // Robot state in simulation
 export interface RobotState {
   id: string;
@@ -163,7 +332,8 @@ export interface SimulationState {
   game: GameState;
   robots: RobotState[];
   ball: BallState;
-  timestamp: number;
+  tick: number;            // simulation steps since initialize()/reset()
+  timestamp: number;       // wall-clock time (not part of the deterministic state)
 }
 
 // Neutral spot for ball placement
@@ -176,14 +346,34 @@ export interface NeutralSpot {
 // Strategy function type
 export type StrategyFunction = (worldState: WorldState) => Action;
 
-// Event types for the referee system
-export type GameEvent = 
-  | { type: 'goal'; team: Team }
-  | { type: 'out_of_bounds'; side: 'top' | 'bottom' | 'left' | 'right' }
-  | { type: 'kickoff'; team: Team }
-  | { type: 'lack_of_progress' }
+// Context shared by every game event
+export interface GameEventContext {
+  tick: number;
+  sim_time_ms: number;      // simulated time since the match was initialized
+  half: number;
+  time_elapsed_ms: number;  // game clock within the half
+  robots: string[];         // robots involved (e.g. the last robot to touch the ball)
+  ball: { x: number; y: number };
+}
+
+export type MatchEndReason = 'time' | 'golden_goal' | 'mercy';
+
+// Game events raised by the engine and referee (see SimulationEngine.getEventBus())
+export type GameEvent = GameEventContext & (
+  | { type: 'goal'; team: Team; own_goal: boolean; score: { blue: number; yellow: number } }
+  | { type: 'out_of_bounds'; side: 'top' | 'bottom' | 'left' | 'right'; neutral_spot: NeutralSpot }
+  | { type: 'kickoff_start'; kickoff_team: Team }
+  | { type: 'play_resumed' }
+  | { type: 'lack_of_progress'; neutral_spot: NeutralSpot }
   | { type: 'half_time' }
-  | { type: 'game_end' };
+  | { type: 'game_end'; reason: MatchEndReason; score: { blue: number; yellow: number } }
+  | { type: 'robot_penalty'; duration_ms: number }
+  | { type: 'robot_penalty_expired' }
+  | { type: 'match_reset' }
+);
+
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
 
 // View mode
 export type ViewMode = '2d' | '3d';
@@ -213,12 +403,18 @@ export function createDefaultWorldState(): WorldState {
     heading_deg: 0,
     yaw_rate_dps: 0,
     v_est: 0,
+    imu_calibration: { sys: 3, gyro: 3, accel: 3, mag: 3 },
     ball: createDefaultObservation(),
     goal_blue: createDefaultObservation(),
     goal_yellow: createDefaultObservation(),
     bumper_front: false,
     bumper_left: false,
     bumper_right: false,
+    range_cm: [],
+    ball_captured: false,
+    ball_held: false,
+    kicker_ready: true,
+    line_reflectance: [],
     line_front: false,
     line_left: false,
     line_right: false,
@@ -227,6 +423,7 @@ export function createDefaultWorldState(): WorldState {
     stuck_confidence: 0,
     we_are_blue: true,
     kickoff_us: false,
+    inbox: [],
     state: undefined,
   };
 }